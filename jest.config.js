@@ -4,6 +4,8 @@ module.exports = {
   testEnvironment: "node",
   roots: ["<rootDir>/src"],
   testMatch: ["**/__tests__/**/*.ts?(x)", "**/?(*.)+(spec|test).ts?(x)"],
+  // Shared test doubles, not test suites
+  testPathIgnorePatterns: ["/node_modules/", "/__tests__/mocks/"],
   transform: {
     "^.+\\.tsx?$": "ts-jest",
   },
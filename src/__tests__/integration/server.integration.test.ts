@@ -1,127 +1,100 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { MockMpdClient } from "../mocks/mpd-client.mock";
-import { MpdClient } from "../../mpd/types";
+
+// Clients the server creates, the default one first
+const mockClients: MockMpdClient[] = [];
 
 // Mock the MPD client
 jest.mock("../../mpd/client", () => ({
   MpdClientImpl: jest.fn().mockImplementation(() => {
-    return new MockMpdClient();
+    const client = new MockMpdClient();
+    mockClients.push(client);
+    return client;
   }),
 }));
 
-// Use isolateModules to create a fresh copy of the server with mocked dependencies
+// Keep the server off stdin/stdout
+jest.mock("@modelcontextprotocol/sdk/server/stdio.js", () => ({
+  StdioServerTransport: jest.fn().mockImplementation(() => ({})),
+}));
+
+// The server is imported once, as a process would run it
 describe("MCP Server Integration Tests", () => {
+  let serverModule: typeof import("../../server");
+  let setRequestHandlerSpy: jest.SpyInstance;
   let mpdClient: MockMpdClient;
 
-  beforeEach(() => {
-    // Reset mocks before each test
-    jest.clearAllMocks();
+  beforeAll(async () => {
+    setRequestHandlerSpy = jest.spyOn(Server.prototype, "setRequestHandler");
+    jest
+      .spyOn(Server.prototype, "connect")
+      .mockImplementation(async () => undefined);
 
-    // Get the mocked MPD client
-    mpdClient = new MockMpdClient();
+    // Import the server module which will trigger the initialization code
+    serverModule = await import("../../server");
+    mpdClient = mockClients[0];
   });
 
-  // This test verifies that the server properly initializes and connects to the MPD server
-  it("should initialize and connect to MPD server", async () => {
-    // We'll use isolateModules to get a fresh instance with our mocks
-    await jest.isolateModules(async () => {
-      // Import the server module which will trigger the initialization code
-      const serverModule = await import("../../server");
-
-      // Our mock should have been called during server startup
-      expect(mpdClient.connect).toHaveBeenCalled();
-    });
+  afterAll(() => {
+    jest.restoreAllMocks();
   });
 
-  // This test verifies that the server handles graceful shutdown
-  it("should disconnect from MPD server on process exit", async () => {
-    await jest.isolateModules(async () => {
-      // Import the server
-      await import("../../server");
-
-      // Simulate SIGINT
-      process.emit("SIGINT");
-
-      // Check that disconnect was called
-      expect(mpdClient.disconnect).toHaveBeenCalled();
-    });
+  // This test verifies that the server properly initializes and connects to the MPD server
+  it("should initialize and connect to MPD server", () => {
+    expect(mpdClient.connect).toHaveBeenCalled();
   });
 
   // This is a comprehensive test that verifies the basic structure of our server
-  it("should set up all required handlers", async () => {
-    await jest.isolateModules(async () => {
-      // Import the full Server implementation to inspect its handlers
-      const { Server } = jest.requireActual(
-        "@modelcontextprotocol/sdk/server/index.js",
-      );
-
-      // Spy on setRequestHandler to verify all handlers are registered
-      const setRequestHandlerSpy = jest.spyOn(
-        Server.prototype,
-        "setRequestHandler",
-      );
-
-      // Import our server, which will trigger handler registration
-      await import("../../server");
-
-      // Verify that all required handlers are registered
-      expect(setRequestHandlerSpy).toHaveBeenCalledTimes(4);
-
-      // Check for specific handlers
-      const handlerNames = setRequestHandlerSpy.mock.calls.map((call) => {
-        // Extract schema name from the first argument
-        const schema = call[0];
-        return schema ? (schema as any).name || "unknown" : "unknown";
-      });
-
-      expect(handlerNames).toContain("ListResourcesRequestSchema");
-      expect(handlerNames).toContain("ReadResourceRequestSchema");
-      expect(handlerNames).toContain("ListToolsRequestSchema");
-      expect(handlerNames).toContain("CallToolRequestSchema");
-
-      // Clean up spy
-      setRequestHandlerSpy.mockRestore();
-    });
+  it("should set up all required handlers", () => {
+    // The SDK registers initialize and ping itself
+    const methods = setRequestHandlerSpy.mock.calls
+      .map(([schema]) => (schema as any).shape.method.value)
+      .filter((method) => method !== "initialize" && method !== "ping");
+
+    expect(methods.sort()).toEqual(
+      [
+        "resources/list",
+        "resources/read",
+        "resources/templates/list",
+        "resources/subscribe",
+        "resources/unsubscribe",
+        "tools/list",
+        "tools/call",
+      ].sort(),
+    );
   });
 
   // Helper function test
   describe("ensureConnected", () => {
     it("should connect to MPD server if not already connected", async () => {
-      await jest.isolateModules(async () => {
-        // Import the server module with the ensureConnected function
-        const serverModule = await import("../../server");
-
-        // Access the ensureConnected function (assuming it's exported for testing)
-        const ensureConnected = (serverModule as any).ensureConnected;
+      mpdClient.connected = false;
+      mpdClient.connect.mockClear();
 
-        // Reset the connected flag
-        (mpdClient as any).connected = false;
+      await serverModule.ensureConnected();
 
-        // Call ensureConnected
-        await ensureConnected();
-
-        // Verify connect was called
-        expect(mpdClient.connect).toHaveBeenCalled();
-      });
+      expect(mpdClient.connect).toHaveBeenCalled();
     });
 
     it("should not connect if already connected", async () => {
-      await jest.isolateModules(async () => {
-        // Import the server module
-        const serverModule = await import("../../server");
+      mpdClient.connected = true;
+      mpdClient.connect.mockClear();
 
-        // Force the connected state to be true
-        (mpdClient as any).connected = true;
+      await serverModule.ensureConnected();
 
-        // Reset the mock call count
-        (mpdClient.connect as jest.Mock).mockClear();
+      expect(mpdClient.connect).not.toHaveBeenCalled();
+    });
+  });
 
-        // Call ensureConnected
-        const ensureConnected = (serverModule as any).ensureConnected;
-        await ensureConnected();
+  // This test verifies that the server handles graceful shutdown
+  it("should disconnect from MPD server on process exit", async () => {
+    const exit = jest
+      .spyOn(process, "exit")
+      .mockImplementation(() => undefined as never);
 
-        // Verify connect was not called
-        expect(mpdClient.connect).not.toHaveBeenCalled();
-      });
-    });
+    process.emit("SIGINT");
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(mpdClient.disconnect).toHaveBeenCalled();
+    expect(exit).toHaveBeenCalledWith(0);
   });
 });
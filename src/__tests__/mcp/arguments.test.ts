@@ -0,0 +1,116 @@
+import {
+  buildSearchCriteria,
+  parseSeekPosition,
+  resolveOutput,
+} from "../../mcp/arguments";
+import { toFilterExpression } from "../../mpd/filter";
+import { MockMpdClient } from "../mocks/mpd-client.mock";
+
+describe("arguments", () => {
+  describe("parseSeekPosition", () => {
+    it("should read times in seconds and minutes", () => {
+      expect(parseSeekPosition("90", 0, 300)).toBe(90);
+      expect(parseSeekPosition("90s", 0, 300)).toBe(90);
+      expect(parseSeekPosition("1:23", 0, 300)).toBe(83);
+      expect(parseSeekPosition("1:02:03", 0)).toBe(3723);
+      expect(parseSeekPosition(" 12.5 s ", 0, 300)).toBe(12.5);
+    });
+
+    it("should seek relative to the elapsed time", () => {
+      expect(parseSeekPosition("+30s", 60, 300)).toBe(90);
+      expect(parseSeekPosition("-1:00", 90, 300)).toBe(30);
+    });
+
+    it("should seek to a percentage of the song", () => {
+      expect(parseSeekPosition("50%", 0, 300)).toBe(150);
+      expect(() => parseSeekPosition("50%", 0)).toThrow(
+        "The current song has no known length",
+      );
+    });
+
+    it("should keep the position within the song", () => {
+      expect(parseSeekPosition("-1:00", 20, 300)).toBe(0);
+      expect(parseSeekPosition("+1:00", 280, 300)).toBe(300);
+      expect(parseSeekPosition("150%", 0, 300)).toBe(300);
+      expect(parseSeekPosition("+1:00", 280)).toBe(340);
+    });
+
+    it("should reject other positions", () => {
+      for (const position of ["", "abc", "1:xx", "++5", "5m"]) {
+        expect(() => parseSeekPosition(position, 0, 300)).toThrow(
+          `Invalid position '${position}'`,
+        );
+      }
+    });
+  });
+
+  describe("resolveOutput", () => {
+    const client = new MockMpdClient();
+
+    it("should find outputs by name or id", async () => {
+      await expect(resolveOutput(client, "headphones")).resolves.toMatchObject({
+        id: 1,
+      });
+      await expect(resolveOutput(client, " 2 ")).resolves.toMatchObject({
+        name: "Stream",
+      });
+    });
+
+    it("should fall back to part of the name", async () => {
+      await expect(resolveOutput(client, "speak")).resolves.toMatchObject({
+        id: 0,
+      });
+    });
+
+    it("should list the outputs when none matches", async () => {
+      await expect(resolveOutput(client, "Kitchen")).rejects.toThrow(
+        "No output matching 'Kitchen'. Available outputs: 0 (Speakers), 1 (Headphones), 2 (Stream)",
+      );
+      await expect(resolveOutput(client, "7")).rejects.toThrow(
+        "No output matching '7'",
+      );
+    });
+  });
+
+  describe("buildSearchCriteria", () => {
+    it("should leave plain queries to the single-field search", () => {
+      expect(buildSearchCriteria({})).toBeUndefined();
+      expect(
+        buildSearchCriteria({ query: "Blue", type: "album", artist: "" }),
+      ).toBeUndefined();
+    });
+
+    it("should combine field criteria", () => {
+      const criteria = buildSearchCriteria({
+        artist: "Miles",
+        year: "1959",
+      });
+
+      expect(criteria?.description).toBe('artist "Miles", year "1959"');
+      expect(toFilterExpression(criteria!.filter)).toBe(
+        "((artist contains 'Miles') AND (date starts_with '1959'))",
+      );
+    });
+
+    it("should put the query first", () => {
+      const criteria = buildSearchCriteria({
+        query: "Blue",
+        type: "album",
+        genre: "Jazz",
+      });
+
+      expect(criteria?.description).toBe('"Blue", genre "Jazz"');
+      expect(toFilterExpression(criteria!.filter)).toBe(
+        "((album contains 'Blue') AND (genre contains 'Jazz'))",
+      );
+    });
+
+    it("should search any field without a type", () => {
+      const criteria = buildSearchCriteria({ query: "Blue", title: "So" });
+
+      expect(toFilterExpression(criteria!.filter)).toBe(
+        "((any contains 'Blue') AND (title contains 'So'))",
+      );
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import {
+  NOT_FOUND_ERROR,
+  PERMISSION_ERROR,
+  toMcpError,
+  UNAVAILABLE_ERROR,
+} from "../../mcp/errors";
+import { MpdConnectionError, MpdError, MpdErrorCode } from "../../mpd/errors";
+
+describe("toMcpError", () => {
+  it("should report lost connections as unavailable", () => {
+    const error = toMcpError(new MpdConnectionError("MPD unavailable"));
+
+    expect(error).toBeInstanceOf(McpError);
+    expect(error).toMatchObject({ code: UNAVAILABLE_ERROR });
+  });
+
+  it("should map MPD error codes", () => {
+    const cases: [MpdErrorCode, number][] = [
+      [MpdErrorCode.NoExist, NOT_FOUND_ERROR],
+      [MpdErrorCode.Permission, PERMISSION_ERROR],
+      [MpdErrorCode.Password, PERMISSION_ERROR],
+      [MpdErrorCode.Arg, ErrorCode.InvalidParams],
+      [MpdErrorCode.NotList, ErrorCode.InvalidParams],
+      [MpdErrorCode.Exist, ErrorCode.InvalidParams],
+      [MpdErrorCode.PlaylistMax, ErrorCode.InvalidParams],
+      [MpdErrorCode.System, ErrorCode.InternalError],
+      [MpdErrorCode.UpdateAlready, ErrorCode.InternalError],
+    ];
+
+    for (const [mpdCode, code] of cases) {
+      expect(toMcpError(new MpdError(mpdCode, "failed", "load"))).toMatchObject(
+        { code },
+      );
+    }
+  });
+
+  it("should keep the MPD code and command", () => {
+    const error = toMcpError(
+      new MpdError(MpdErrorCode.NoExist, "No such playlist", "load"),
+    );
+
+    expect(error).toMatchObject({
+      data: { mpdCode: MpdErrorCode.NoExist, command: "load" },
+    });
+    expect((error as McpError).message).toContain("No such playlist");
+  });
+
+  it("should pass other errors through", () => {
+    const error = new Error("Unknown resource: unknown");
+    expect(toMcpError(error)).toBe(error);
+
+    const mcpError = new McpError(ErrorCode.InvalidParams, "Invalid cursor");
+    expect(toMcpError(mcpError)).toBe(mcpError);
+  });
+});
@@ -0,0 +1,73 @@
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
+import { parseCursor, songPage } from "../../mcp/paging";
+
+const cursor = (offset: string) => Buffer.from(offset).toString("base64url");
+
+const songs = (count: number) =>
+  Array.from({ length: count }, (_, index) => ({ file: `${index}.mp3` }));
+
+describe("paging", () => {
+  describe("parseCursor", () => {
+    it("should start at the beginning without a cursor", () => {
+      expect(parseCursor(new URL("mpd://library"))).toBe(0);
+    });
+
+    it("should read the offset from the cursor", () => {
+      expect(
+        parseCursor(new URL(`mpd://library?cursor=${cursor("500")}`)),
+      ).toBe(500);
+    });
+
+    it("should reject invalid cursors", () => {
+      for (const value of [cursor("abc"), cursor("-1"), cursor("1.5"), "%%"]) {
+        expect(() =>
+          parseCursor(new URL(`mpd://library?cursor=${value}`)),
+        ).toThrow(McpError);
+      }
+    });
+  });
+
+  describe("songPage", () => {
+    it("should link to the next page", () => {
+      const page = songPage("mpd://playlist", 0, songs(2), 5, 600);
+
+      expect(page).toEqual({
+        summary: {
+          total: 5,
+          totalDuration: 600,
+          totalDurationText: "10:00",
+          page: "1-2 of 5",
+        },
+        nextCursor: cursor("2"),
+        nextUri: `mpd://playlist?cursor=${cursor("2")}`,
+        songs: songs(2),
+      });
+    });
+
+    it("should end on the last page", () => {
+      const page = songPage("mpd://playlist?cursor=Mw", 3, songs(2), 5);
+
+      expect(page).toMatchObject({
+        summary: { total: 5, page: "4-5 of 5" },
+        nextCursor: undefined,
+        nextUri: undefined,
+      });
+    });
+
+    it("should describe an empty queue", () => {
+      const page = songPage("mpd://playlist", 0, [], 0);
+
+      expect(page).toEqual({
+        summary: {
+          total: 0,
+          totalDuration: undefined,
+          totalDurationText: undefined,
+          page: "empty",
+        },
+        nextCursor: undefined,
+        nextUri: undefined,
+        songs: [],
+      });
+    });
+  });
+});
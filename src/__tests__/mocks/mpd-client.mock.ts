@@ -1,10 +1,34 @@
-import { MpdClient, MpdSong, MpdStatus, MpdStats } from '../../mpd/types';
+import { EventEmitter } from 'events';
+import {
+  MpdClient,
+  MpdConnectionState,
+  MpdCount,
+  MpdDirectoryEntry,
+  MpdMessage,
+  MpdMount,
+  MpdOutput,
+  MpdQueuePosition,
+  MpdRange,
+  MpdReplayGainMode,
+  MpdSong,
+  MpdStatus,
+  MpdStats,
+  MpdStickerMatch,
+  MpdTagValue,
+} from '../../mpd/types';
 
 /**
- * Mock implementation of MpdClient for testing
+ * Mock implementation of MpdClient for testing.
+ * Change events can be simulated with `emit('player', 'player')`.
  */
-export class MockMpdClient implements MpdClient {
+export class MockMpdClient extends EventEmitter implements MpdClient {
   connected: boolean = false;
+  mockState?: MpdConnectionState;
+
+  get state(): MpdConnectionState {
+    return this.mockState ?? (this.connected ? 'connected' : 'disconnected');
+  }
+
   mockStatus: MpdStatus = {
     volume: 50,
     repeat: false,
@@ -92,6 +116,13 @@ export class MockMpdClient implements MpdClient {
   previous = jest.fn().mockResolvedValue(undefined);
   seek = jest.fn().mockResolvedValue(undefined);
 
+  seekCur = jest.fn().mockImplementation(async (time: number, relative?: boolean): Promise<void> => {
+    this.mockStatus.elapsed = relative ? (this.mockStatus.elapsed || 0) + time : time;
+    return Promise.resolve();
+  });
+
+  seekId = jest.fn().mockResolvedValue(undefined);
+
   setVolume = jest.fn().mockImplementation(async (volume: number): Promise<void> => {
     this.mockStatus.volume = volume;
     return Promise.resolve();
@@ -117,6 +148,32 @@ export class MockMpdClient implements MpdClient {
     return Promise.resolve();
   });
 
+  setCrossfade = jest.fn().mockImplementation(async (seconds: number): Promise<void> => {
+    this.mockStatus.xfade = seconds;
+    return Promise.resolve();
+  });
+
+  setMixrampDb = jest.fn().mockImplementation(async (decibels: number): Promise<void> => {
+    this.mockStatus.mixrampdb = decibels;
+    return Promise.resolve();
+  });
+
+  setMixrampDelay = jest.fn().mockImplementation(async (seconds: number | null): Promise<void> => {
+    this.mockStatus.mixrampdelay = seconds === null || seconds < 0 ? undefined : seconds;
+    return Promise.resolve();
+  });
+
+  mockReplayGainMode: MpdReplayGainMode = 'off';
+
+  setReplayGainMode = jest.fn().mockImplementation(async (mode: MpdReplayGainMode): Promise<void> => {
+    this.mockReplayGainMode = mode;
+    return Promise.resolve();
+  });
+
+  replayGainStatus = jest.fn().mockImplementation(async (): Promise<MpdReplayGainMode> => {
+    return Promise.resolve(this.mockReplayGainMode);
+  });
+
   status = jest.fn().mockImplementation(async (): Promise<MpdStatus> => {
     return Promise.resolve(this.mockStatus);
   });
@@ -129,10 +186,172 @@ export class MockMpdClient implements MpdClient {
     return Promise.resolve(this.mockStats);
   });
 
-  playlistInfo = jest.fn().mockImplementation(async (): Promise<MpdSong[]> => {
+  mockOutputs: MpdOutput[] = [
+    { id: 0, name: 'Speakers', plugin: 'alsa', enabled: true, attributes: {} },
+    { id: 1, name: 'Headphones', plugin: 'pulse', enabled: false, attributes: {} },
+    { id: 2, name: 'Stream', plugin: 'httpd', enabled: false, attributes: {} },
+  ];
+
+  outputs = jest.fn().mockImplementation(async (): Promise<MpdOutput[]> => {
+    return Promise.resolve(this.mockOutputs);
+  });
+
+  enableOutput = jest.fn().mockImplementation(async (id: number): Promise<void> => {
+    const output = this.mockOutputs.find((o) => o.id === id);
+    if (output) output.enabled = true;
+    return Promise.resolve();
+  });
+
+  disableOutput = jest.fn().mockImplementation(async (id: number): Promise<void> => {
+    const output = this.mockOutputs.find((o) => o.id === id);
+    if (output) output.enabled = false;
+    return Promise.resolve();
+  });
+
+  toggleOutput = jest.fn().mockImplementation(async (id: number): Promise<void> => {
+    const output = this.mockOutputs.find((o) => o.id === id);
+    if (output) output.enabled = !output.enabled;
+    return Promise.resolve();
+  });
+
+  outputSet = jest.fn().mockResolvedValue(undefined);
+
+  mockPartitions: string[] = ['default'];
+  partition = 'default';
+
+  switchPartition = jest.fn().mockImplementation(async (name: string): Promise<void> => {
+    if (!this.mockPartitions.includes(name)) {
+      return Promise.reject(new Error('partition does not exist'));
+    }
+    this.partition = name;
+    this.mockStatus.partition = name;
+    return Promise.resolve();
+  });
+
+  listPartitions = jest.fn().mockImplementation(async (): Promise<string[]> => {
+    return Promise.resolve(this.mockPartitions);
+  });
+
+  newPartition = jest.fn().mockImplementation(async (name: string): Promise<void> => {
+    this.mockPartitions.push(name);
+    return Promise.resolve();
+  });
+
+  deletePartition = jest.fn().mockImplementation(async (name: string): Promise<void> => {
+    this.mockPartitions = this.mockPartitions.filter((partition) => partition !== name);
+    return Promise.resolve();
+  });
+
+  moveOutput = jest.fn().mockResolvedValue(undefined);
+
+  mockMounts: MpdMount[] = [{ mount: '', storage: '/var/lib/mpd/music' }];
+
+  mount = jest.fn().mockImplementation(async (path: string, uri: string): Promise<void> => {
+    this.mockMounts.push({ mount: path, storage: uri });
+    return Promise.resolve();
+  });
+
+  unmount = jest.fn().mockImplementation(async (path: string): Promise<void> => {
+    this.mockMounts = this.mockMounts.filter((item) => item.mount !== path);
+    return Promise.resolve();
+  });
+
+  listMounts = jest.fn().mockImplementation(async (): Promise<MpdMount[]> => {
+    return Promise.resolve(this.mockMounts);
+  });
+
+  listNeighbors = jest.fn().mockResolvedValue([{ uri: 'smb://nas', name: 'NAS (Samba 4.17)' }]);
+
+  mockChannels = new Set<string>(['kitchen']);
+  mockMessages: MpdMessage[] = [];
+
+  subscribe = jest.fn().mockImplementation(async (channel: string): Promise<void> => {
+    this.mockChannels.add(channel);
+    return Promise.resolve();
+  });
+
+  unsubscribe = jest.fn().mockResolvedValue(undefined);
+
+  channels = jest.fn().mockImplementation(async (): Promise<string[]> => {
+    return Promise.resolve(Array.from(this.mockChannels));
+  });
+
+  sendMessage = jest.fn().mockResolvedValue(undefined);
+
+  readMessages = jest.fn().mockImplementation(async (): Promise<MpdMessage[]> => {
+    const messages = this.mockMessages;
+    this.mockMessages = [];
+    return Promise.resolve(messages);
+  });
+
+  commands = jest.fn().mockResolvedValue(['play', 'pause', 'status']);
+  notCommands = jest.fn().mockResolvedValue(['config', 'kill']);
+
+  commandList = jest.fn().mockResolvedValue([]);
+
+  albumArt = jest.fn().mockResolvedValue(undefined);
+  readPicture = jest.fn().mockResolvedValue(undefined);
+
+  update = jest.fn().mockResolvedValue(1);
+  rescan = jest.fn().mockResolvedValue(1);
+
+  // Stickers by song URI
+  mockStickers: Record<string, Record<string, string>> = {};
+
+  stickerGet = jest.fn().mockImplementation(
+    async (type: string, uri: string, name: string): Promise<string | undefined> => {
+      return Promise.resolve(this.mockStickers[uri]?.[name]);
+    }
+  );
+
+  stickerSet = jest.fn().mockImplementation(
+    async (type: string, uri: string, name: string, value: string): Promise<void> => {
+      this.mockStickers[uri] = { ...this.mockStickers[uri], [name]: value };
+      return Promise.resolve();
+    }
+  );
+
+  stickerDelete = jest.fn().mockImplementation(
+    async (type: string, uri: string, name?: string): Promise<void> => {
+      if (name) {
+        delete this.mockStickers[uri]?.[name];
+      } else {
+        delete this.mockStickers[uri];
+      }
+      return Promise.resolve();
+    }
+  );
+
+  stickerList = jest.fn().mockImplementation(
+    async (type: string, uri: string): Promise<Record<string, string>> => {
+      return Promise.resolve(this.mockStickers[uri] || {});
+    }
+  );
+
+  stickerFind = jest.fn().mockImplementation(
+    async (type: string, uri: string, name: string): Promise<MpdStickerMatch[]> => {
+      return Promise.resolve(
+        Object.entries(this.mockStickers)
+          .filter(([file, stickers]) => file.startsWith(uri) && stickers[name] !== undefined)
+          .map(([file, stickers]) => ({ uri: file, value: stickers[name] }))
+      );
+    }
+  );
+
+  playlistInfo = jest.fn().mockImplementation(async (window?: MpdRange): Promise<MpdSong[]> => {
+    return Promise.resolve(window ? this.mockPlaylist.slice(window[0], window[1]) : this.mockPlaylist);
+  });
+
+  plChanges = jest.fn().mockImplementation(async (): Promise<MpdSong[]> => {
     return Promise.resolve(this.mockPlaylist);
   });
 
+  plChangesPosId = jest.fn().mockImplementation(async (): Promise<MpdQueuePosition[]> => {
+    return Promise.resolve(
+      this.mockPlaylist.map((song, index) => ({ pos: song.pos ?? index, id: song.id ?? index }))
+    );
+  });
+
   playlistAdd = jest.fn().mockImplementation(async (uri: string): Promise<void> => {
     const newSong: MpdSong = {
       file: uri,
@@ -144,14 +363,59 @@ export class MockMpdClient implements MpdClient {
     return Promise.resolve();
   });
 
-  playlistDelete = jest.fn().mockImplementation(async (position: number): Promise<void> => {
-    if (position >= 0 && position < this.mockPlaylist.length) {
-      this.mockPlaylist.splice(position, 1);
+  playlistAddId = jest.fn().mockImplementation(
+    async (uri: string, position?: number | string): Promise<number> => {
+      const id = this.mockPlaylist.length + 1;
+      const index =
+        typeof position === 'number' ? position : this.mockPlaylist.length;
+      this.mockPlaylist.splice(index, 0, { file: uri, id });
+      this.mockPlaylist.forEach((song, pos) => (song.pos = pos));
+      this.mockStatus.playlistlength = this.mockPlaylist.length;
+      return Promise.resolve(id);
+    }
+  );
+
+  playlistAddAll = jest.fn().mockImplementation(
+    async (uris: string[], position?: number | string): Promise<number[]> => {
+      const ids: number[] = [];
+      for (const [index, uri] of uris.entries()) {
+        ids.push(
+          await this.playlistAddId(uri, typeof position === 'number' ? position + index : position)
+        );
+      }
+      return Promise.resolve(ids);
+    }
+  );
+
+  playlistDelete = jest.fn().mockImplementation(async (position: number | MpdRange): Promise<void> => {
+    const [start, end] = typeof position === 'number' ? [position, position + 1] : position;
+    if (start >= 0 && start < this.mockPlaylist.length) {
+      this.mockPlaylist.splice(start, (end ?? this.mockPlaylist.length) - start);
       this.mockStatus.playlistlength = this.mockPlaylist.length;
     }
     return Promise.resolve();
   });
 
+  playlistDeleteId = jest.fn().mockImplementation(async (id: number): Promise<void> => {
+    this.mockPlaylist = this.mockPlaylist.filter((song) => song.id !== id);
+    this.mockStatus.playlistlength = this.mockPlaylist.length;
+    return Promise.resolve();
+  });
+
+  playlistMove = jest.fn().mockResolvedValue(undefined);
+  playlistMoveId = jest.fn().mockResolvedValue(undefined);
+  playlistSwap = jest.fn().mockResolvedValue(undefined);
+  playlistSwapId = jest.fn().mockResolvedValue(undefined);
+  playlistShuffle = jest.fn().mockResolvedValue(undefined);
+
+  playId = jest.fn().mockImplementation(async (): Promise<void> => {
+    this.mockStatus.state = 'play';
+    return Promise.resolve();
+  });
+
+  setPriority = jest.fn().mockResolvedValue(undefined);
+  setPriorityId = jest.fn().mockResolvedValue(undefined);
+
   playlistClear = jest.fn().mockImplementation(async (): Promise<void> => {
     this.mockPlaylist = [];
     this.mockStatus.playlistlength = 0;
@@ -162,6 +426,28 @@ export class MockMpdClient implements MpdClient {
     return Promise.resolve(this.mockLibrary);
   });
 
+  lsInfo = jest.fn().mockImplementation(async (): Promise<MpdDirectoryEntry[]> => {
+    return Promise.resolve([
+      { type: 'directory', path: 'Test Artist 1' },
+      ...this.mockLibrary.map((song): MpdDirectoryEntry => ({ type: 'file', path: song.file, song })),
+    ]);
+  });
+
+  songInfo = jest.fn().mockImplementation(async (uri: string): Promise<MpdSong | null> => {
+    return Promise.resolve(this.mockLibrary.find((song) => song.file === uri) || null);
+  });
+
+  readComments = jest.fn().mockResolvedValue({ ARTIST: 'Test Artist', COMMENT: ['first', 'second'] });
+
+  getFingerprint = jest.fn().mockResolvedValue('AQADtEmUaEkSRZEGAAAA');
+
+  listFiles = jest.fn().mockImplementation(async (): Promise<MpdDirectoryEntry[]> => {
+    return Promise.resolve([
+      { type: 'directory', path: 'Test Artist 1' },
+      { type: 'file', path: 'cover.jpg', size: 51200 },
+    ]);
+  });
+
   search = jest.fn().mockImplementation(async (type: string, query: string): Promise<MpdSong[]> => {
     if (type === 'any') {
       return Promise.resolve(
@@ -192,6 +478,36 @@ export class MockMpdClient implements MpdClient {
     );
   });
 
+  songInfoAll = jest.fn().mockImplementation(async (uris: string[]): Promise<(MpdSong | null)[]> => {
+    return Promise.resolve(uris.map((uri) => this.mockLibrary.find((song) => song.file === uri) || null));
+  });
+
+  list = jest.fn().mockImplementation(async (tag: string): Promise<MpdTagValue[]> => {
+    const values = new Set<string>();
+    for (const song of this.mockLibrary) {
+      const value = song[tag.toLowerCase() as keyof MpdSong];
+      if (typeof value === 'string') values.add(value);
+    }
+    return Promise.resolve(Array.from(values).map((value) => ({ value, groups: {} })));
+  });
+
+  count = jest.fn().mockImplementation(async (_filter?: unknown, groupBy?: string): Promise<MpdCount[]> => {
+    if (!groupBy) {
+      return Promise.resolve([{ songs: this.mockLibrary.length, playtime: 600 }]);
+    }
+
+    const counts = new Map<string, MpdCount>();
+    for (const song of this.mockLibrary) {
+      const value = song[groupBy.toLowerCase() as keyof MpdSong];
+      const group = typeof value === 'string' ? value : '';
+      const count = counts.get(group) || { group, songs: 0, playtime: 0 };
+      count.songs += 1;
+      count.playtime += song.duration || 200;
+      counts.set(group, count);
+    }
+    return Promise.resolve(Array.from(counts.values()));
+  });
+
   listPlaylists = jest.fn().mockImplementation(
     async (): Promise<{ playlist: string; lastModified: string }[]> => {
       return Promise.resolve([
@@ -200,4 +516,40 @@ export class MockMpdClient implements MpdClient {
       ]);
     }
   );
+
+  mockStoredPlaylists: Record<string, MpdSong[]> = {
+    'Test Playlist 1': [{ file: 'test1.mp3', artist: 'Test Artist 1', title: 'Test Song 1' }],
+    'Test Playlist 2': [],
+  };
+
+  listPlaylistInfo = jest.fn().mockImplementation(async (name: string): Promise<MpdSong[]> => {
+    return Promise.resolve(this.mockStoredPlaylists[name] || []);
+  });
+
+  loadPlaylist = jest.fn().mockImplementation(async (name: string): Promise<void> => {
+    this.mockPlaylist.push(...(this.mockStoredPlaylists[name] || []));
+    this.mockStatus.playlistlength = this.mockPlaylist.length;
+    return Promise.resolve();
+  });
+
+  savePlaylist = jest.fn().mockImplementation(async (name: string): Promise<void> => {
+    this.mockStoredPlaylists[name] = [...this.mockPlaylist];
+    return Promise.resolve();
+  });
+
+  removePlaylist = jest.fn().mockImplementation(async (name: string): Promise<void> => {
+    delete this.mockStoredPlaylists[name];
+    return Promise.resolve();
+  });
+
+  renamePlaylist = jest.fn().mockImplementation(async (name: string, newName: string): Promise<void> => {
+    this.mockStoredPlaylists[newName] = this.mockStoredPlaylists[name] || [];
+    delete this.mockStoredPlaylists[name];
+    return Promise.resolve();
+  });
+
+  storedPlaylistAdd = jest.fn().mockResolvedValue(undefined);
+  storedPlaylistDelete = jest.fn().mockResolvedValue(undefined);
+  storedPlaylistMove = jest.fn().mockResolvedValue(undefined);
+  storedPlaylistClear = jest.fn().mockResolvedValue(undefined);
 }
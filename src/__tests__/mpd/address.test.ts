@@ -0,0 +1,80 @@
+import os from "os";
+import { formatMpdAddress, parseMpdAddress } from "../../mpd/address";
+
+describe("parseMpdAddress", () => {
+  it("should parse hostnames with the given port", () => {
+    expect(parseMpdAddress("music.local", 6601)).toEqual({
+      host: "music.local",
+      port: 6601,
+    });
+    expect(parseMpdAddress("")).toEqual({ host: "localhost", port: 6600 });
+  });
+
+  it("should parse Unix socket paths", () => {
+    expect(parseMpdAddress("/run/mpd/socket")).toEqual({
+      host: "localhost",
+      port: 6600,
+      path: "/run/mpd/socket",
+    });
+    expect(parseMpdAddress("~/.mpd/socket").path).toBe(
+      `${os.homedir()}/.mpd/socket`,
+    );
+  });
+
+  it("should parse abstract sockets", () => {
+    expect(parseMpdAddress("@mpd").path).toBe("\0mpd");
+    expect(parseMpdAddress("@mpd").password).toBeUndefined();
+  });
+
+  it("should parse passwords in the mpc MPD_HOST style", () => {
+    expect(parseMpdAddress("secret@music.local")).toEqual({
+      host: "music.local",
+      port: 6600,
+      password: "secret",
+    });
+    expect(parseMpdAddress("secret@/run/mpd/socket")).toMatchObject({
+      path: "/run/mpd/socket",
+      password: "secret",
+    });
+    expect(parseMpdAddress("secret@@mpd")).toMatchObject({
+      path: "\0mpd",
+      password: "secret",
+    });
+  });
+
+  it("should parse mpd:// URLs", () => {
+    expect(parseMpdAddress("mpd://music.local:6601")).toEqual({
+      host: "music.local",
+      port: 6601,
+      password: undefined,
+    });
+    expect(parseMpdAddress("mpd://s%40cret@music.local")).toEqual({
+      host: "music.local",
+      port: 6600,
+      password: "s@cret",
+    });
+    expect(parseMpdAddress("mpd://:secret@[::1]:6601")).toEqual({
+      host: "::1",
+      port: 6601,
+      password: "secret",
+    });
+    expect(parseMpdAddress("mpd:///run/mpd/socket")).toEqual({
+      host: "localhost",
+      port: 6600,
+      path: "/run/mpd/socket",
+      password: undefined,
+    });
+  });
+});
+
+describe("formatMpdAddress", () => {
+  it("should describe addresses without the password", () => {
+    expect(formatMpdAddress(parseMpdAddress("secret@music.local"))).toBe(
+      "music.local:6600",
+    );
+    expect(formatMpdAddress(parseMpdAddress("/run/mpd/socket"))).toBe(
+      "/run/mpd/socket",
+    );
+    expect(formatMpdAddress(parseMpdAddress("@mpd"))).toBe("@mpd");
+  });
+});
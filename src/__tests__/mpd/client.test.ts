@@ -1,70 +1,245 @@
 import { MpdClientImpl } from "../../mpd/client";
 import { MpdSong, MpdStatus, MpdStats } from "../../mpd/types";
+import { and, contains, eq } from "../../mpd/filter";
+import { sendCommandList } from "../../mpd/connection";
+import { MpdConnectionError, MpdError, MpdErrorCode } from "../../mpd/errors";
+import MPD from "mpd2";
+
+// Command lists run on their own connection
+jest.mock("../../mpd/connection", () => ({
+  ...jest.requireActual("../../mpd/connection"),
+  sendCommandList: jest
+    .fn()
+    .mockImplementation((_options: unknown, commands: unknown[]) =>
+      Promise.resolve(commands.map((_command, index) => `Id: ${index + 10}`)),
+    ),
+}));
 
 // Mock the mpd2 module
 jest.mock("mpd2", () => ({
-  connect: jest.fn().mockImplementation(() => {
+  connect: jest.fn().mockImplementation((config: { password?: string }) => {
+    // mpd2 sends the password while connecting
+    if (config.password !== undefined && config.password !== "secret") {
+      return Promise.reject(
+        Object.assign(new Error("incorrect password"), {
+          errno: 3,
+          current_command: "password",
+        }),
+      );
+    }
+
     return Promise.resolve({
-      sendCommand: jest
-        .fn()
-        .mockImplementation((command: string, args: string[]) => {
-          if (command === "status") {
-            return Promise.resolve(
-              "volume: 50\nrepeat: 1\nrandom: 0\nsingle: 0\nconsume: 0\nplaylist: 1\nplaylistlength: 2\nmixrampdb: 0\nstate: play\nsong: 0\nsongid: 1\ntime: 30:180\nelapsed: 30\nbitrate: 320\nduration: 180\naudio: 44100:16:2",
-            );
-          }
+      sendCommand: jest.fn().mockImplementation((line: string) => {
+        // Split the line the way MPD does: a bare name, then quoted arguments
+        const [command, ...args] = (
+          line.match(/"(?:[^"\\]|\\.)*"|\S+/g) ?? []
+        ).map((token) =>
+          token.startsWith('"')
+            ? token.slice(1, -1).replace(/\\(.)/g, "$1")
+            : token,
+        );
 
-          if (command === "currentsong") {
+        if (command === "status") {
+          return Promise.resolve(
+            "volume: 50\nrepeat: 1\nrandom: 0\nsingle: 0\nconsume: 0\nplaylist: 1\nplaylistlength: 2\nmixrampdb: 0\nmixrampdelay: nan\nxfade: 3\nstate: play\nsong: 0\nsongid: 1\ntime: 30:180\nelapsed: 30\nbitrate: 320\nduration: 180\naudio: 44100:16:2",
+          );
+        }
+
+        if (command === "currentsong") {
+          return Promise.resolve(
+            "file: test.mp3\nArtist: Test Artist\nAlbum: Test Album\nTitle: Test Song\nPos: 0\nId: 1",
+          );
+        }
+
+        if (command === "stats") {
+          return Promise.resolve(
+            "artists: 100\nalbums: 200\nsongs: 1000\nuptime: 3600\ndb_playtime: 100000\ndb_update: 1626262626\nplaytime: 7200",
+          );
+        }
+
+        if (command === "playlistinfo") {
+          return Promise.resolve(
+            "file: test1.mp3\nArtist: Test Artist 1\nAlbum: Test Album 1\nTitle: Test Song 1\nPos: 0\nId: 1\nfile: test2.mp3\nArtist: Test Artist 2\nAlbum: Test Album 2\nTitle: Test Song 2\nPos: 1\nId: 2",
+          );
+        }
+
+        if (command === "listallinfo" && args[0] === "Jazz") {
+          return Promise.resolve(
+            "directory: Jazz/Kind of Blue\nLast-Modified: 2024-01-02T10:00:00Z\nfile: Jazz/Kind of Blue/01.flac\nLast-Modified: 2024-01-02T10:00:00Z\nTime: 545\nduration: 545.123\nArtist: Miles Davis\nArtist: John Coltrane\nTitle: So What\ndirectory: Jazz/Sketches\nLast-Modified: 2024-03-04T10:00:00Z\nplaylist: Jazz/Sketches/side-a.m3u\nLast-Modified: 2024-03-04T11:00:00Z",
+          );
+        }
+
+        if (command === "listallinfo") {
+          return Promise.resolve(
+            "file: test1.mp3\nArtist: Test Artist 1\nAlbum: Test Album 1\nTitle: Test Song 1\nfile: test2.mp3\nArtist: Test Artist 2\nAlbum: Test Album 2\nTitle: Test Song 2",
+          );
+        }
+
+        if (command === "search") {
+          if (
+            args[0] === "(artist contains 'Test Artist 1')" ||
+            (args[0] === "artist" && args[1] === "Test Artist 1")
+          ) {
             return Promise.resolve(
-              "file: test.mp3\nArtist: Test Artist\nAlbum: Test Album\nTitle: Test Song\nPos: 0\nId: 1",
+              "file: test1.mp3\nArtist: Test Artist 1\nAlbum: Test Album 1\nTitle: Test Song 1",
             );
           }
+          return Promise.resolve("");
+        }
 
-          if (command === "stats") {
+        if (command === "find") {
+          if (args[0] === "artist" && args[1] === "Test Artist 2") {
             return Promise.resolve(
-              "artists: 100\nalbums: 200\nsongs: 1000\nuptime: 3600\ndb_playtime: 100000\ndb_update: 1626262626\nplaytime: 7200",
+              "file: test2.mp3\nArtist: Test Artist 2\nAlbum: Test Album 2\nTitle: Test Song 2",
             );
           }
+          return Promise.resolve("");
+        }
 
-          if (command === "playlistinfo") {
+        if (command === "list") {
+          if (args.includes("group")) {
             return Promise.resolve(
-              "file: test1.mp3\nArtist: Test Artist 1\nAlbum: Test Album 1\nTitle: Test Song 1\nPos: 0\nId: 1\nfile: test2.mp3\nArtist: Test Artist 2\nAlbum: Test Album 2\nTitle: Test Song 2\nPos: 1\nId: 2",
+              "AlbumArtist: Deftones\nAlbum: Adrenaline\nAlbum: White Pony\nAlbumArtist: Tool\nAlbum: Lateralus",
             );
           }
+          return Promise.resolve("Genre: Jazz\nGenre: Metal");
+        }
 
-          if (command === "listallinfo") {
+        if (command === "count") {
+          if (args.includes("group")) {
             return Promise.resolve(
-              "file: test1.mp3\nArtist: Test Artist 1\nAlbum: Test Album 1\nTitle: Test Song 1\nfile: test2.mp3\nArtist: Test Artist 2\nAlbum: Test Album 2\nTitle: Test Song 2",
+              "Artist: Deftones\nsongs: 24\nplaytime: 5400\nArtist: Tool\nsongs: 13\nplaytime: 4600",
             );
           }
+          return Promise.resolve("songs: 37\nplaytime: 10000");
+        }
 
-          if (command === "search") {
-            if (args[0] === "artist" && args[1] === "Test Artist 1") {
-              return Promise.resolve(
-                "file: test1.mp3\nArtist: Test Artist 1\nAlbum: Test Album 1\nTitle: Test Song 1",
-              );
-            }
-            return Promise.resolve("");
-          }
+        if (command === "listplaylists") {
+          return Promise.resolve(
+            "playlist: Test Playlist 1\nlast-modified: 2023-01-01T00:00:00Z\nplaylist: Test Playlist 2\nlast-modified: 2023-01-02T00:00:00Z",
+          );
+        }
 
-          if (command === "find") {
-            if (args[0] === "artist" && args[1] === "Test Artist 2") {
-              return Promise.resolve(
-                "file: test2.mp3\nArtist: Test Artist 2\nAlbum: Test Album 2\nTitle: Test Song 2",
-              );
-            }
-            return Promise.resolve("");
-          }
+        if (command === "listpartitions") {
+          return Promise.resolve(
+            "partition: default\npartition: kitchen\npartition: bedroom",
+          );
+        }
 
-          if (command === "listplaylists") {
+        if (command === "sticker") {
+          if (args[0] === "get" && args[3] === "missing") {
+            return Promise.reject(new Error("no such sticker"));
+          }
+          if (args[0] === "get") {
+            return Promise.resolve("sticker: rating=10");
+          }
+          if (args[0] === "list") {
             return Promise.resolve(
-              "playlist: Test Playlist 1\nlast-modified: 2023-01-01T00:00:00Z\nplaylist: Test Playlist 2\nlast-modified: 2023-01-02T00:00:00Z",
+              "sticker: rating=8\nsticker: playCount=3\nsticker: note=a=b",
+            );
+          }
+          if (args[0] === "find") {
+            return Promise.resolve(
+              "file: test1.mp3\nsticker: rating=10\nfile: test2.mp3\nsticker: rating=6",
             );
           }
-
           return Promise.resolve("");
-        }),
+        }
+
+        if (command === "outputs") {
+          return Promise.resolve(
+            "outputid: 0\noutputname: Speakers\nplugin: alsa\noutputenabled: 1\noutputid: 1\noutputname: Stream\nplugin: httpd\noutputenabled: 0\nattribute: allowed_formats=\nattribute: dop=0",
+          );
+        }
+
+        if (command === "channels") {
+          return Promise.resolve("channel: kitchen\nchannel: lights");
+        }
+
+        if (command === "readmessages") {
+          return Promise.resolve(
+            "channel: kitchen\nmessage: dinner is ready\nchannel: lights\nmessage: off",
+          );
+        }
+
+        if (command === "listmounts") {
+          return Promise.resolve(
+            "mount: \nstorage: /var/lib/mpd/music\nmount: nas\nstorage: nfs://nas.local/music",
+          );
+        }
+
+        if (command === "listneighbors") {
+          return Promise.resolve(
+            "neighbor: smb://nas\nname: NAS (Samba 4.17)\nneighbor: upnp://media",
+          );
+        }
+
+        if (command === "replay_gain_status") {
+          return Promise.resolve("replay_gain_mode: album");
+        }
+
+        if (command === "update" && args[0] === "private") {
+          return Promise.reject(
+            Object.assign(
+              new Error('you don\'t have permission for "update"'),
+              { errno: 4 },
+            ),
+          );
+        }
+
+        if (command === "commands") {
+          return Promise.resolve("command: play\ncommand: status");
+        }
+
+        if (command === "notcommands") {
+          return Promise.resolve("command: update\ncommand: config");
+        }
+
+        if (command === "update" || command === "rescan") {
+          return Promise.resolve("updating_db: 7");
+        }
+
+        if (command === "lsinfo") {
+          return Promise.resolve(
+            "directory: Jazz/Miles Davis\nLast-Modified: 2024-01-01T00:00:00Z\nfile: Jazz/So What.flac\nLast-Modified: 2024-01-02T00:00:00Z\nArtist: Miles Davis\nTitle: So What\nduration: 562.0\nplaylist: Jazz/favorites.m3u\nLast-Modified: 2024-01-03T00:00:00Z",
+          );
+        }
+
+        if (command === "listfiles") {
+          return Promise.resolve(
+            "directory: Miles Davis\nLast-Modified: 2024-01-01T00:00:00Z\nfile: cover.jpg\nsize: 51200\nLast-Modified: 2024-01-04T00:00:00Z",
+          );
+        }
+
+        if (command === "readcomments") {
+          return Promise.resolve(
+            "ARTIST: Miles Davis\nCOMMENT: first take\nCOMMENT: remastered\nREPLAYGAIN_TRACK_GAIN: -6.2 dB",
+          );
+        }
+
+        if (command === "getfingerprint") {
+          return Promise.resolve("chromaprint: AQADtEmUaEkSRZEGAAAA");
+        }
+
+        if (command === "plchangesposid") {
+          return Promise.resolve("cpos: 0\nId: 7\ncpos: 1\nId: 3");
+        }
+
+        if (command === "addid") {
+          return Promise.resolve("Id: 42");
+        }
+
+        if (command === "listplaylistinfo") {
+          return Promise.resolve(
+            "file: test1.mp3\nArtist: Test Artist 1\nTitle: Test Song 1\nfile: test2.mp3\nArtist: Test Artist 2\nTitle: Test Song 2",
+          );
+        }
+
+        return Promise.resolve("");
+      }),
+      on: jest.fn(),
       close: jest.fn().mockResolvedValue(undefined),
+      disconnect: jest.fn().mockResolvedValue(undefined),
     });
   }),
 }));
@@ -88,6 +263,129 @@ describe("MpdClientImpl", () => {
     });
   });
 
+  describe("addresses", () => {
+    it("should connect to Unix sockets", async () => {
+      client = new MpdClientImpl("/run/mpd/socket");
+      await client.connect();
+
+      expect(MPD.connect).toHaveBeenLastCalledWith({ path: "/run/mpd/socket" });
+    });
+
+    it("should use the password given with the host", async () => {
+      client = new MpdClientImpl("secret@localhost");
+      await client.connect();
+
+      expect(MPD.connect).toHaveBeenLastCalledWith({
+        host: "localhost",
+        port: 6600,
+        password: "secret",
+      });
+    });
+  });
+
+  describe("password", () => {
+    it("should authenticate while connecting", async () => {
+      // Like MPD without default permissions: mpd2's idle check is refused
+      // unless the password comes first
+      const connect = (MPD.connect as jest.Mock).getMockImplementation()!;
+      (MPD.connect as jest.Mock).mockImplementationOnce(
+        (config: { password?: string }) =>
+          config.password === "secret"
+            ? connect(config)
+            : Promise.reject(
+                Object.assign(
+                  new Error('you don\'t have permission for "idle"'),
+                  { errno: 4, current_command: "idle" },
+                ),
+              ),
+      );
+      client = new MpdClientImpl("localhost", 6600, { password: "secret" });
+      await client.connect();
+
+      expect((client as any).connected).toBe(true);
+      expect(MPD.connect).toHaveBeenCalledWith({
+        host: "localhost",
+        port: 6600,
+        password: "secret",
+      });
+    });
+
+    it("should authenticate the idle connection", async () => {
+      client = new MpdClientImpl("localhost", 6600, { password: "secret" });
+      client.on("player", jest.fn());
+      await client.connect();
+
+      expect(MPD.connect).toHaveBeenCalledTimes(2);
+      for (const [config] of (MPD.connect as jest.Mock).mock.calls) {
+        expect(config).toMatchObject({ password: "secret" });
+      }
+    });
+
+    it("should fail to connect with a wrong password", async () => {
+      client = new MpdClientImpl("localhost", 6600, { password: "wrong" });
+
+      await expect(client.connect()).rejects.toThrow(
+        "MPD rejected the password: incorrect password",
+      );
+      expect((client as any).connected).toBe(false);
+    });
+  });
+
+  describe("permissions", () => {
+    beforeEach(async () => {
+      await client.connect();
+    });
+
+    it("should list allowed and forbidden commands", async () => {
+      await expect(client.commands()).resolves.toEqual(["play", "status"]);
+      await expect(client.notCommands()).resolves.toEqual(["update", "config"]);
+    });
+
+    it("should explain permission errors", async () => {
+      await expect(client.update("private")).rejects.toThrow(
+        "Permission denied for 'update'. MPD requires a password for it (set MPD_PASSWORD). Commands not available: update, config",
+      );
+    });
+  });
+
+  describe("errors", () => {
+    beforeEach(async () => {
+      await client.connect();
+    });
+
+    it("should turn ACK responses into MpdError", async () => {
+      (client as any).client.sendCommand.mockRejectedValueOnce(
+        Object.assign(new Error("No such song"), {
+          errno: 50,
+          current_command: "play",
+          cmd_list_num: 0,
+        }),
+      );
+
+      const error = await client.play(99).catch((err) => err);
+
+      expect(error).toBeInstanceOf(MpdError);
+      expect(error).toMatchObject({
+        code: MpdErrorCode.NoExist,
+        command: "play",
+        message: "No such song",
+      });
+    });
+
+    it("should report permission errors with their code", async () => {
+      await expect(client.update("private")).rejects.toMatchObject({
+        code: MpdErrorCode.Permission,
+        command: "update",
+      });
+    });
+
+    it("should report a missing connection as a connection error", async () => {
+      await client.disconnect();
+
+      await expect(client.status()).rejects.toBeInstanceOf(MpdConnectionError);
+    });
+  });
+
   describe("disconnect", () => {
     it("should disconnect from MPD server", async () => {
       await client.connect();
@@ -97,6 +395,160 @@ describe("MpdClientImpl", () => {
     });
   });
 
+  describe("reconnecting", () => {
+    const closeConnection = (mpd: any) => {
+      const [, handler] = mpd.on.mock.calls.find(
+        ([event]: [string]) => event === "close",
+      );
+      handler();
+    };
+
+    afterEach(async () => {
+      await client.disconnect();
+      jest.useRealTimers();
+    });
+
+    it("should report connection state changes", async () => {
+      const onState = jest.fn();
+      client.on("state", onState);
+
+      expect(client.state).toBe("disconnected");
+      await client.connect();
+      await client.disconnect();
+
+      expect(onState.mock.calls).toEqual([
+        ["connecting"],
+        ["connected"],
+        ["disconnected"],
+      ]);
+    });
+
+    it("should reconnect when the connection closes", async () => {
+      jest.useFakeTimers();
+      client = new MpdClientImpl("localhost", 6600, { reconnectDelay: 100 });
+      await client.connect();
+      const connection = (client as any).client;
+
+      closeConnection(connection);
+
+      expect(client.state).toBe("reconnecting");
+      await expect(client.status()).rejects.toThrow(
+        "MPD unavailable, retrying",
+      );
+
+      await jest.advanceTimersByTimeAsync(100);
+
+      expect(client.state).toBe("connected");
+      expect((client as any).client).not.toBe(connection);
+    });
+
+    it("should back off exponentially while MPD is unreachable", async () => {
+      jest.useFakeTimers();
+      client = new MpdClientImpl("localhost", 6600, { reconnectDelay: 100 });
+      await client.connect();
+      closeConnection((client as any).client);
+
+      (MPD.connect as jest.Mock)
+        .mockRejectedValueOnce(new Error("ECONNREFUSED"))
+        .mockRejectedValueOnce(new Error("ECONNREFUSED"));
+      jest.spyOn(console, "error").mockImplementation(() => undefined);
+      const connects = (MPD.connect as jest.Mock).mock.calls.length;
+
+      await jest.advanceTimersByTimeAsync(100);
+      expect(MPD.connect).toHaveBeenCalledTimes(connects + 1);
+      await jest.advanceTimersByTimeAsync(199);
+      expect(MPD.connect).toHaveBeenCalledTimes(connects + 1);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(MPD.connect).toHaveBeenCalledTimes(connects + 2);
+      await jest.advanceTimersByTimeAsync(400);
+
+      expect(client.state).toBe("connected");
+      (console.error as jest.Mock).mockRestore();
+    });
+
+    it("should restore the partition and subscriptions", async () => {
+      jest.useFakeTimers();
+      client = new MpdClientImpl("localhost", 6600, { reconnectDelay: 100 });
+      await client.connect();
+      await client.switchPartition("kitchen");
+      await client.subscribe("lights");
+      closeConnection((client as any).client);
+
+      await jest.advanceTimersByTimeAsync(100);
+
+      const sendCommand = (client as any).client.sendCommand;
+      expect(sendCommand).toHaveBeenNthCalledWith(1, 'partition "kitchen"');
+      expect(sendCommand).toHaveBeenNthCalledWith(2, 'subscribe "lights"');
+    });
+
+    it("should fail pending commands when the connection closes", async () => {
+      await client.connect();
+      const connection = (client as any).client;
+      connection.sendCommand.mockReturnValueOnce(new Promise(() => undefined));
+
+      const pending = client.status();
+      closeConnection(connection);
+
+      await expect(pending).rejects.toThrow("Connection to MPD lost");
+    });
+
+    it("should not reconnect when disabled", async () => {
+      client = new MpdClientImpl("localhost", 6600, { reconnect: false });
+      await client.connect();
+      closeConnection((client as any).client);
+
+      expect(client.state).toBe("disconnected");
+      await expect(client.status()).rejects.toThrow(
+        "Not connected to MPD server",
+      );
+    });
+  });
+
+  describe("change events", () => {
+    it("should not open an idle connection without listeners", async () => {
+      await client.connect();
+      expect((client as any).idleClient).toBeUndefined();
+    });
+
+    it("should emit subsystem events from the idle connection", async () => {
+      const onPlayer = jest.fn();
+      const onChange = jest.fn();
+      client.on("player", onPlayer);
+      client.on("change", onChange);
+      await client.connect();
+
+      const idleClient = (client as any).idleClient;
+      expect(idleClient).toBeDefined();
+      expect(idleClient).not.toBe((client as any).client);
+
+      const [event, handler] = idleClient.on.mock.calls[0];
+      expect(event).toBe("system");
+      handler("player");
+
+      expect(onPlayer).toHaveBeenCalledWith("player");
+      expect(onChange).toHaveBeenCalledWith("player");
+    });
+
+    it("should open the idle connection when a listener is added later", async () => {
+      await client.connect();
+      client.on("mixer", jest.fn());
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect((client as any).idleClient).toBeDefined();
+    });
+
+    it("should close the idle connection on disconnect", async () => {
+      client.on("playlist", jest.fn());
+      await client.connect();
+      const idleClient = (client as any).idleClient;
+
+      await client.disconnect();
+
+      expect(idleClient.disconnect).toHaveBeenCalled();
+      expect((client as any).idleClient).toBeUndefined();
+    });
+  });
+
   describe("status", () => {
     it("should return MPD status", async () => {
       await client.connect();
@@ -111,6 +563,8 @@ describe("MpdClientImpl", () => {
         playlist: 1,
         playlistlength: 2,
         mixrampdb: 0,
+        mixrampdelay: undefined,
+        xfade: 3,
         state: "play",
         song: 0,
         songid: 1,
@@ -119,6 +573,7 @@ describe("MpdClientImpl", () => {
         bitrate: 320,
         duration: 180,
         audio: "44100:16:2",
+        partition: undefined,
         nextsong: undefined,
         nextsongid: undefined,
       });
@@ -139,6 +594,31 @@ describe("MpdClientImpl", () => {
         id: 1,
       });
     });
+
+    it("should keep all tags and repeated tags as arrays", async () => {
+      await client.connect();
+      (client as any).client.sendCommand.mockResolvedValueOnce(
+        "file: duet.flac\nLast-Modified: 2024-03-01T12:00:00Z\nFormat: 44100:24:2\nArtist: Ella Fitzgerald\nArtist: Louis Armstrong\nAlbumArtist: Ella Fitzgerald\nTitle: Cheek to Cheek\nGenre: Jazz\nGenre: Vocal\nDate: 1956\nComposer: Irving Berlin\nDisc: 1\nTrack: 2\nMUSICBRAINZ_TRACKID: 0b9d8c5e\nduration: 355.2",
+      );
+
+      const song = await client.currentSong();
+
+      expect(song).toEqual({
+        file: "duet.flac",
+        lastModified: "2024-03-01T12:00:00Z",
+        format: "44100:24:2",
+        artist: ["Ella Fitzgerald", "Louis Armstrong"],
+        albumArtist: "Ella Fitzgerald",
+        title: "Cheek to Cheek",
+        genre: ["Jazz", "Vocal"],
+        date: "1956",
+        composer: "Irving Berlin",
+        disc: "1",
+        track: "2",
+        musicbrainzTrackId: "0b9d8c5e",
+        duration: 355.2,
+      });
+    });
   });
 
   describe("stats", () => {
@@ -182,6 +662,60 @@ describe("MpdClientImpl", () => {
         },
       ]);
     });
+
+    it("should list a window of the queue", async () => {
+      await client.connect();
+      await client.playlistInfo([100, 150]);
+
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'playlistinfo "100:150"',
+      );
+    });
+  });
+
+  describe("queue changes", () => {
+    beforeEach(async () => {
+      await client.connect();
+    });
+
+    it("should list changed songs since a version", async () => {
+      const songs = await client.plChanges(4);
+
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'plchanges "4"',
+      );
+      expect(songs).toEqual([]);
+    });
+
+    it("should list changed positions and ids", async () => {
+      const changes = await client.plChangesPosId(4, [0, 2]);
+
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'plchangesposid "4" "0:2"',
+      );
+      expect(changes).toEqual([
+        { pos: 0, id: 7 },
+        { pos: 1, id: 3 },
+      ]);
+    });
+  });
+
+  describe("database updates", () => {
+    beforeEach(async () => {
+      await client.connect();
+    });
+
+    it("should start an update and return the job id", async () => {
+      await expect(client.update()).resolves.toBe(7);
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith("update");
+    });
+
+    it("should rescan a path", async () => {
+      await expect(client.rescan("Deftones/White Pony")).resolves.toBe(7);
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'rescan "Deftones/White Pony"',
+      );
+    });
   });
 
   describe("listAllInfo", () => {
@@ -204,6 +738,22 @@ describe("MpdClientImpl", () => {
         },
       ]);
     });
+
+    it("should not merge directories and playlists into songs", async () => {
+      await client.connect();
+      const library = await client.listAllInfo("Jazz");
+
+      expect(library).toEqual([
+        {
+          file: "Jazz/Kind of Blue/01.flac",
+          lastModified: "2024-01-02T10:00:00Z",
+          time: "545",
+          duration: 545.123,
+          artist: ["Miles Davis", "John Coltrane"],
+          title: "So What",
+        },
+      ]);
+    });
   });
 
   describe("search", () => {
@@ -222,97 +772,494 @@ describe("MpdClientImpl", () => {
     });
   });
 
-  describe("find", () => {
-    it("should find exact matches", async () => {
+  describe("search on servers without filter expressions", () => {
+    it("should fall back to a tag/value search", async () => {
       await client.connect();
-      const results = await client.find("artist", "Test Artist 2");
+      const sendCommand = (client as any).client.sendCommand;
+      // MPD before 0.21 reads the expression as a tag without a value
+      sendCommand.mockRejectedValueOnce(
+        Object.assign(new Error("incorrect arguments"), {
+          errno: 2,
+          current_command: "search",
+        }),
+      );
+
+      const results = await client.search("artist", "Test Artist 1");
 
+      expect(sendCommand).toHaveBeenLastCalledWith(
+        'search "artist" "Test Artist 1"',
+      );
       expect(results).toEqual([
         {
-          file: "test2.mp3",
-          artist: "Test Artist 2",
-          album: "Test Album 2",
-          title: "Test Song 2",
+          file: "test1.mp3",
+          artist: "Test Artist 1",
+          album: "Test Album 1",
+          title: "Test Song 1",
         },
       ]);
     });
   });
 
-  describe("listPlaylists", () => {
-    it("should list available playlists", async () => {
-      await client.connect();
-      const playlists = await client.listPlaylists();
-
-      // Check that we have at least one playlist
-      expect(playlists.length).toBeGreaterThan(0);
-
-      // If there's a second playlist, verify its properties
-      if (playlists.length > 1) {
-        expect(playlists[1]).toEqual({
-          playlist: "Test Playlist 2",
-          lastModified: "2023-01-02T00:00:00Z",
-        });
-      }
-    });
-  });
-
-  describe("playback controls", () => {
+  describe("search with filters", () => {
     beforeEach(async () => {
       await client.connect();
     });
 
-    it("should execute play command", async () => {
-      await client.play();
-      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
-        "play",
-        [],
+    it("should send filter expressions with sort and window", async () => {
+      await client.search(
+        and(contains("artist", "Test"), eq("album", "Test Album 1")),
+        { sort: "-date", window: [0, 10] },
       );
-    });
 
-    it("should execute play command with position", async () => {
-      await client.play(1);
-      expect((client as any).client.sendCommand).toHaveBeenCalledWith("play", [
-        "1",
-      ]);
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'search "((artist contains \'Test\') AND (album == \'Test Album 1\'))" "sort" "-date" "window" "0:10"',
+      );
     });
 
-    it("should execute pause command", async () => {
-      await client.pause();
-      expect((client as any).client.sendCommand).toHaveBeenCalledWith("pause", [
-        "1",
-      ]);
-    });
+    it("should search single tags with a filter expression first", async () => {
+      await client.search("artist", "Test Artist 1");
 
-    it("should execute stop command", async () => {
-      await client.stop();
       expect((client as any).client.sendCommand).toHaveBeenCalledWith(
-        "stop",
-        [],
+        "search \"(artist contains 'Test Artist 1')\"",
       );
     });
 
-    it("should execute next command", async () => {
-      await client.next();
+    it("should find with filter expressions", async () => {
+      await client.find(eq("artist", "Test Artist 2"));
+
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        "find \"(artist == 'Test Artist 2')\"",
+      );
+    });
+
+    it("should find with a filter, sort and window", async () => {
+      await client.find(eq("artist", "Guns N' Roses"), {
+        sort: "-date",
+        window: [0, 10],
+      });
+
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        `find "(artist == 'Guns N\\\\' Roses')" "sort" "-date" "window" "0:10"`,
+      );
+    });
+  });
+
+  describe("list and count", () => {
+    beforeEach(async () => {
+      await client.connect();
+    });
+
+    it("should list distinct tag values", async () => {
+      const values = await client.list("genre");
+
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'list "genre"',
+      );
+      expect(values).toEqual([
+        { value: "Jazz", groups: {} },
+        { value: "Metal", groups: {} },
+      ]);
+    });
+
+    it("should attach group values to listed values", async () => {
+      const values = await client.list(
+        "album",
+        contains("genre", "Metal"),
+        "AlbumArtist",
+      );
+
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'list "album" "(genre contains \'Metal\')" "group" "albumartist"',
+      );
+      expect(values).toEqual([
+        { value: "Adrenaline", groups: { albumartist: "Deftones" } },
+        { value: "White Pony", groups: { albumartist: "Deftones" } },
+        { value: "Lateralus", groups: { albumartist: "Tool" } },
+      ]);
+    });
+
+    it("should count songs and playtime", async () => {
+      const counts = await client.count(contains("artist", "o"));
+
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        "count \"(artist contains 'o')\"",
+      );
+      expect(counts).toEqual([{ songs: 37, playtime: 10000 }]);
+    });
+
+    it("should count per group", async () => {
+      const counts = await client.count(undefined, "artist");
+
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'count "group" "artist"',
+      );
+      expect(counts).toEqual([
+        { group: "Deftones", songs: 24, playtime: 5400 },
+        { group: "Tool", songs: 13, playtime: 4600 },
+      ]);
+    });
+  });
+
+  describe("directories", () => {
+    beforeEach(async () => {
+      await client.connect();
+    });
+
+    it("should list directories, songs and playlists with lsinfo", async () => {
+      const entries = await client.lsInfo("Jazz");
+
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'lsinfo "Jazz"',
+      );
+      expect(entries).toEqual([
+        {
+          type: "directory",
+          path: "Jazz/Miles Davis",
+          lastModified: "2024-01-01T00:00:00Z",
+        },
+        {
+          type: "file",
+          path: "Jazz/So What.flac",
+          lastModified: "2024-01-02T00:00:00Z",
+          song: {
+            file: "Jazz/So What.flac",
+            lastModified: "2024-01-02T00:00:00Z",
+            artist: "Miles Davis",
+            title: "So What",
+            duration: 562,
+          },
+        },
+        {
+          type: "playlist",
+          path: "Jazz/favorites.m3u",
+          lastModified: "2024-01-03T00:00:00Z",
+        },
+      ]);
+    });
+
+    it("should list the top level without a path", async () => {
+      await client.lsInfo();
+
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith("lsinfo");
+    });
+
+    it("should read a single song with lsinfo", async () => {
+      (client as any).client.sendCommand.mockResolvedValueOnce(
+        "file: Jazz/So What.flac\nArtist: Miles Davis\nTitle: So What\nFormat: 44100:16:2",
+      );
+
+      const song = await client.songInfo("Jazz/So What.flac");
+
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'lsinfo "Jazz/So What.flac"',
+      );
+      expect(song).toEqual({
+        file: "Jazz/So What.flac",
+        artist: "Miles Davis",
+        title: "So What",
+        format: "44100:16:2",
+      });
+    });
+
+    it("should read the comments of a file", async () => {
+      await expect(client.readComments("Jazz/So What.flac")).resolves.toEqual({
+        ARTIST: "Miles Davis",
+        COMMENT: ["first take", "remastered"],
+        REPLAYGAIN_TRACK_GAIN: "-6.2 dB",
+      });
+    });
+
+    it("should calculate fingerprints", async () => {
+      await expect(client.getFingerprint("Jazz/So What.flac")).resolves.toBe(
+        "AQADtEmUaEkSRZEGAAAA",
+      );
+    });
+
+    it("should list all files with listfiles", async () => {
+      const entries = await client.listFiles("Jazz");
+
+      expect(entries).toEqual([
+        {
+          type: "directory",
+          path: "Miles Davis",
+          lastModified: "2024-01-01T00:00:00Z",
+        },
+        {
+          type: "file",
+          path: "cover.jpg",
+          size: 51200,
+          lastModified: "2024-01-04T00:00:00Z",
+        },
+      ]);
+    });
+  });
+
+  describe("find", () => {
+    it("should find exact matches", async () => {
+      await client.connect();
+      const results = await client.find("artist", "Test Artist 2");
+
+      expect(results).toEqual([
+        {
+          file: "test2.mp3",
+          artist: "Test Artist 2",
+          album: "Test Album 2",
+          title: "Test Song 2",
+        },
+      ]);
+    });
+  });
+
+  describe("listPlaylists", () => {
+    it("should list available playlists", async () => {
+      await client.connect();
+      const playlists = await client.listPlaylists();
+
+      expect(playlists).toEqual([
+        {
+          playlist: "Test Playlist 1",
+          lastModified: "2023-01-01T00:00:00Z",
+        },
+        {
+          playlist: "Test Playlist 2",
+          lastModified: "2023-01-02T00:00:00Z",
+        },
+      ]);
+    });
+  });
+
+  describe("partitions", () => {
+    beforeEach(async () => {
+      await client.connect();
+    });
+
+    it("should list partitions", async () => {
+      const partitions = await client.listPartitions();
+      expect(partitions).toEqual(["default", "kitchen", "bedroom"]);
+    });
+
+    it("should create and delete partitions", async () => {
+      await client.newPartition("kitchen");
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'newpartition "kitchen"',
+      );
+
+      await client.deletePartition("kitchen");
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'delpartition "kitchen"',
+      );
+    });
+
+    it("should move an output to the current partition", async () => {
+      await client.moveOutput("Speakers");
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'moveoutput "Speakers"',
+      );
+    });
+
+    it("should switch partition and restore it on reconnect", async () => {
+      await client.switchPartition("kitchen");
       expect((client as any).client.sendCommand).toHaveBeenCalledWith(
-        "next",
-        [],
+        'partition "kitchen"',
       );
+
+      await client.disconnect();
+      await client.connect();
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'partition "kitchen"',
+      );
+    });
+
+    it("should switch the idle connection to the partition", async () => {
+      client.on("player", jest.fn());
+      await new Promise((resolve) => setImmediate(resolve));
+      await client.switchPartition("kitchen");
+
+      expect((client as any).idleClient.sendCommand).toHaveBeenCalledWith(
+        'partition "kitchen"',
+      );
+    });
+  });
+
+  describe("stickers", () => {
+    beforeEach(async () => {
+      await client.connect();
+    });
+
+    it("should get a sticker value", async () => {
+      const value = await client.stickerGet("song", "test1.mp3", "rating");
+
+      expect(value).toBe("10");
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'sticker "get" "song" "test1.mp3" "rating"',
+      );
+    });
+
+    it("should return undefined for a missing sticker", async () => {
+      const value = await client.stickerGet("song", "test1.mp3", "missing");
+      expect(value).toBeUndefined();
+    });
+
+    it("should set and delete stickers", async () => {
+      await client.stickerSet("song", "test1.mp3", "rating", "8");
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'sticker "set" "song" "test1.mp3" "rating" "8"',
+      );
+
+      await client.stickerDelete("song", "test1.mp3", "rating");
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'sticker "delete" "song" "test1.mp3" "rating"',
+      );
+
+      await client.stickerDelete("song", "test1.mp3");
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'sticker "delete" "song" "test1.mp3"',
+      );
+    });
+
+    it("should list all stickers of a song", async () => {
+      const stickers = await client.stickerList("song", "test1.mp3");
+
+      expect(stickers).toEqual({ rating: "8", playCount: "3", note: "a=b" });
+    });
+
+    it("should find stickers with an optional comparison", async () => {
+      const matches = await client.stickerFind("song", "", "rating", {
+        operator: ">",
+        value: "5",
+      });
+
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'sticker "find" "song" "" "rating" ">" "5"',
+      );
+      expect(matches).toEqual([
+        { uri: "test1.mp3", value: "10" },
+        { uri: "test2.mp3", value: "6" },
+      ]);
+    });
+  });
+
+  describe("outputs", () => {
+    beforeEach(async () => {
+      await client.connect();
+    });
+
+    it("should list audio outputs with attributes", async () => {
+      const outputs = await client.outputs();
+
+      expect(outputs).toEqual([
+        {
+          id: 0,
+          name: "Speakers",
+          plugin: "alsa",
+          enabled: true,
+          attributes: {},
+        },
+        {
+          id: 1,
+          name: "Stream",
+          plugin: "httpd",
+          enabled: false,
+          attributes: { allowed_formats: "", dop: "0" },
+        },
+      ]);
+    });
+
+    it("should enable, disable and toggle outputs", async () => {
+      await client.enableOutput(1);
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'enableoutput "1"',
+      );
+
+      await client.disableOutput(1);
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'disableoutput "1"',
+      );
+
+      await client.toggleOutput(0);
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'toggleoutput "0"',
+      );
+    });
+
+    it("should set output attributes", async () => {
+      await client.outputSet(1, "dop", "1");
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'outputset "1" "dop" "1"',
+      );
+    });
+  });
+
+  describe("playback controls", () => {
+    beforeEach(async () => {
+      await client.connect();
+    });
+
+    it("should execute play command", async () => {
+      await client.play();
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith("play");
+    });
+
+    it("should execute play command with position", async () => {
+      await client.play(1);
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'play "1"',
+      );
+    });
+
+    it("should execute pause command", async () => {
+      await client.pause();
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'pause "1"',
+      );
+    });
+
+    it("should execute stop command", async () => {
+      await client.stop();
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith("stop");
+    });
+
+    it("should execute next command", async () => {
+      await client.next();
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith("next");
     });
 
     it("should execute previous command", async () => {
       await client.previous();
       expect((client as any).client.sendCommand).toHaveBeenCalledWith(
         "previous",
-        [],
       );
     });
 
     it("should execute seek command", async () => {
       await client.seek(1, 30);
-      expect((client as any).client.sendCommand).toHaveBeenCalledWith("seek", [
-        "1",
-        "30",
-      ]);
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'seek "1" "30"',
+      );
+    });
+
+    it("should seek within the current song", async () => {
+      await client.seekCur(83.5);
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'seekcur "83.5"',
+      );
+
+      await client.seekCur(30, true);
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'seekcur "+30"',
+      );
+
+      await client.seekCur(-10, true);
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'seekcur "-10"',
+      );
+    });
+
+    it("should seek within a song by id", async () => {
+      await client.seekId(17, 90);
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'seekid "17" "90"',
+      );
     });
   });
 
@@ -324,22 +1271,19 @@ describe("MpdClientImpl", () => {
     it("should set volume", async () => {
       await client.setVolume(75);
       expect((client as any).client.sendCommand).toHaveBeenCalledWith(
-        "setvol",
-        ["75"],
+        'setvol "75"',
       );
     });
 
     it("should clamp volume to 0-100 range", async () => {
       await client.setVolume(-10);
       expect((client as any).client.sendCommand).toHaveBeenCalledWith(
-        "setvol",
-        ["0"],
+        'setvol "0"',
       );
 
       await client.setVolume(110);
       expect((client as any).client.sendCommand).toHaveBeenCalledWith(
-        "setvol",
-        ["100"],
+        'setvol "100"',
       );
     });
   });
@@ -352,58 +1296,83 @@ describe("MpdClientImpl", () => {
     it("should set repeat mode", async () => {
       await client.setRepeat(true);
       expect((client as any).client.sendCommand).toHaveBeenCalledWith(
-        "repeat",
-        ["1"],
+        'repeat "1"',
       );
 
       await client.setRepeat(false);
       expect((client as any).client.sendCommand).toHaveBeenCalledWith(
-        "repeat",
-        ["0"],
+        'repeat "0"',
       );
     });
 
     it("should set random mode", async () => {
       await client.setRandom(true);
       expect((client as any).client.sendCommand).toHaveBeenCalledWith(
-        "random",
-        ["1"],
+        'random "1"',
       );
 
       await client.setRandom(false);
       expect((client as any).client.sendCommand).toHaveBeenCalledWith(
-        "random",
-        ["0"],
+        'random "0"',
       );
     });
 
     it("should set single mode", async () => {
       await client.setSingle(true);
       expect((client as any).client.sendCommand).toHaveBeenCalledWith(
-        "single",
-        ["1"],
+        'single "1"',
       );
 
       await client.setSingle(false);
       expect((client as any).client.sendCommand).toHaveBeenCalledWith(
-        "single",
-        ["0"],
+        'single "0"',
       );
     });
 
     it("should set consume mode", async () => {
       await client.setConsume(true);
       expect((client as any).client.sendCommand).toHaveBeenCalledWith(
-        "consume",
-        ["1"],
+        'consume "1"',
       );
 
       await client.setConsume(false);
       expect((client as any).client.sendCommand).toHaveBeenCalledWith(
-        "consume",
-        ["0"],
+        'consume "0"',
       );
     });
+
+    it("should set crossfade in whole seconds", async () => {
+      await client.setCrossfade(2.6);
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'crossfade "3"',
+      );
+    });
+
+    it("should set and disable MixRamp", async () => {
+      await client.setMixrampDb(-17);
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'mixrampdb "-17"',
+      );
+
+      await client.setMixrampDelay(2);
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'mixrampdelay "2"',
+      );
+
+      await client.setMixrampDelay(null);
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'mixrampdelay "nan"',
+      );
+    });
+
+    it("should set and read the ReplayGain mode", async () => {
+      await client.setReplayGainMode("album");
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'replay_gain_mode "album"',
+      );
+
+      await expect(client.replayGainStatus()).resolves.toBe("album");
+    });
   });
 
   describe("playlist management", () => {
@@ -413,24 +1382,318 @@ describe("MpdClientImpl", () => {
 
     it("should add item to playlist", async () => {
       await client.playlistAdd("test3.mp3");
-      expect((client as any).client.sendCommand).toHaveBeenCalledWith("add", [
-        "test3.mp3",
-      ]);
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'add "test3.mp3"',
+      );
     });
 
     it("should delete item from playlist", async () => {
       await client.playlistDelete(1);
       expect((client as any).client.sendCommand).toHaveBeenCalledWith(
-        "delete",
-        ["1"],
+        'delete "1"',
       );
     });
 
     it("should clear playlist", async () => {
       await client.playlistClear();
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith("clear");
+    });
+
+    it("should add item at a position and return its id", async () => {
+      const id = await client.playlistAddId("test3.mp3", "+0");
+      expect(id).toBe(42);
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'addid "test3.mp3" "+0"',
+      );
+    });
+
+    it("should delete a range of items from playlist", async () => {
+      await client.playlistDelete([2, 5]);
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'delete "2:5"',
+      );
+
+      await client.playlistDelete([3]);
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'delete "3:"',
+      );
+    });
+
+    it("should delete item by id", async () => {
+      await client.playlistDeleteId(7);
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'deleteid "7"',
+      );
+    });
+
+    it("should move items by position and id", async () => {
+      await client.playlistMove([0, 2], 5);
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'move "0:2" "5"',
+      );
+
+      await client.playlistMoveId(7, 0);
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'moveid "7" "0"',
+      );
+    });
+
+    it("should swap items by position and id", async () => {
+      await client.playlistSwap(1, 3);
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'swap "1" "3"',
+      );
+
+      await client.playlistSwapId(7, 8);
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'swapid "7" "8"',
+      );
+    });
+
+    it("should shuffle the whole playlist or a range", async () => {
+      await client.playlistShuffle();
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        "shuffle",
+      );
+
+      await client.playlistShuffle([4, 10]);
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'shuffle "4:10"',
+      );
+    });
+
+    it("should play item by id", async () => {
+      await client.playId(7);
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'playid "7"',
+      );
+    });
+
+    it("should set priorities and clamp them to 0-255", async () => {
+      await client.setPriority(300, [[0, 2], [5]]);
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'prio "255" "0:2" "5:"',
+      );
+
+      await client.setPriorityId(10, [7, 8]);
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'prioid "10" "7" "8"',
+      );
+    });
+  });
+
+  describe("messages", () => {
+    beforeEach(async () => {
+      await client.connect();
+    });
+
+    it("should subscribe to a channel once", async () => {
+      await client.subscribe("kitchen");
+      await client.subscribe("kitchen");
+
+      const calls = (client as any).client.sendCommand.mock.calls.filter(
+        ([line]: [string]) => line.startsWith("subscribe"),
+      );
+      expect(calls).toEqual([['subscribe "kitchen"']]);
+    });
+
+    it("should subscribe only the command connection", async () => {
+      client.on("message", jest.fn());
+      await new Promise((resolve) => setImmediate(resolve));
+      await client.subscribe("kitchen");
+      await client.unsubscribe("kitchen");
+
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'unsubscribe "kitchen"',
+      );
+      expect((client as any).idleClient.sendCommand).not.toHaveBeenCalledWith(
+        'subscribe "kitchen"',
+      );
+    });
+
+    it("should list channels", async () => {
+      await expect(client.channels()).resolves.toEqual(["kitchen", "lights"]);
+    });
+
+    it("should send and read messages", async () => {
+      await client.sendMessage("kitchen", "dinner is ready");
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'sendmessage "kitchen" "dinner is ready"',
+      );
+
+      await expect(client.readMessages()).resolves.toEqual([
+        { channel: "kitchen", message: "dinner is ready" },
+        { channel: "lights", message: "off" },
+      ]);
+    });
+  });
+
+  describe("storage", () => {
+    beforeEach(async () => {
+      await client.connect();
+    });
+
+    it("should mount and unmount storage", async () => {
+      await client.mount("nas", "nfs://nas.local/music");
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'mount "nas" "nfs://nas.local/music"',
+      );
+
+      await client.unmount("nas");
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'unmount "nas"',
+      );
+    });
+
+    it("should list mounts including the root mount", async () => {
+      await expect(client.listMounts()).resolves.toEqual([
+        { mount: "", storage: "/var/lib/mpd/music" },
+        { mount: "nas", storage: "nfs://nas.local/music" },
+      ]);
+    });
+
+    it("should list neighbors", async () => {
+      await expect(client.listNeighbors()).resolves.toEqual([
+        { uri: "smb://nas", name: "NAS (Samba 4.17)" },
+        { uri: "upnp://media", name: "upnp://media" },
+      ]);
+    });
+  });
+
+  describe("command lists", () => {
+    beforeEach(async () => {
+      await client.connect();
+      (sendCommandList as jest.Mock).mockClear();
+    });
+
+    it("should add songs in one command list", async () => {
+      const ids = await client.playlistAddAll(["a.mp3", "b.mp3"]);
+
+      expect(ids).toEqual([10, 11]);
+      expect(sendCommandList).toHaveBeenCalledTimes(1);
+      expect(sendCommandList).toHaveBeenCalledWith(
+        { host: "localhost", port: 6600, partition: undefined },
+        [
+          { command: "addid", args: ["a.mp3"] },
+          { command: "addid", args: ["b.mp3"] },
+        ],
+      );
+    });
+
+    it("should keep the order when inserting at a position", async () => {
+      await client.playlistAddAll(["a.mp3", "b.mp3"], 3);
+      await client.playlistAddAll(["a.mp3", "b.mp3"], "+0");
+
+      const calls = (sendCommandList as jest.Mock).mock.calls;
+      expect(calls[0][1]).toEqual([
+        { command: "addid", args: ["a.mp3", "3"] },
+        { command: "addid", args: ["b.mp3", "4"] },
+      ]);
+      expect(calls[1][1]).toEqual([
+        { command: "addid", args: ["a.mp3", "+0"] },
+        { command: "addid", args: ["b.mp3", "+1"] },
+      ]);
+    });
+
+    it("should reject with the number of songs added before a failure", async () => {
+      (sendCommandList as jest.Mock).mockRejectedValueOnce(
+        new MpdError(MpdErrorCode.NoExist, "No such song", "addid", 1),
+      );
+
+      await expect(
+        client.playlistAddAll(["a.mp3", "missing.mp3", "c.mp3"]),
+      ).rejects.toMatchObject({ code: MpdErrorCode.NoExist, index: 1 });
+    });
+
+    it("should look up song files in one command list", async () => {
+      (sendCommandList as jest.Mock).mockResolvedValueOnce([
+        "file: a.mp3\nTitle: A",
+        "",
+      ]);
+
+      const songs = await client.songInfoAll(["a.mp3", "it's.mp3"]);
+
+      expect(songs).toEqual([{ file: "a.mp3", title: "A" }, null]);
+      expect((sendCommandList as jest.Mock).mock.calls[0][1]).toEqual([
+        { command: "find", args: ["(file == 'a.mp3')"] },
+        { command: "find", args: ["(file == 'it\\'s.mp3')"] },
+      ]);
+    });
+
+    it("should skip empty command lists", async () => {
+      await expect(client.commandList([])).resolves.toEqual([]);
+      expect(sendCommandList).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("stored playlists", () => {
+    beforeEach(async () => {
+      await client.connect();
+    });
+
+    it("should list stored playlist contents", async () => {
+      const songs = await client.listPlaylistInfo("Friday Mix");
+
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'listplaylistinfo "Friday Mix"',
+      );
+      expect(songs).toEqual([
+        { file: "test1.mp3", artist: "Test Artist 1", title: "Test Song 1" },
+        { file: "test2.mp3", artist: "Test Artist 2", title: "Test Song 2" },
+      ]);
+    });
+
+    it("should load, save and remove playlists", async () => {
+      await client.loadPlaylist("Friday Mix");
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'load "Friday Mix"',
+      );
+
+      await client.savePlaylist("Friday Mix");
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'save "Friday Mix"',
+      );
+
+      await client.removePlaylist("Friday Mix");
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'rm "Friday Mix"',
+      );
+    });
+
+    it("should escape quotes and backslashes in arguments", async () => {
+      await client.loadPlaylist('Mix "B" \\ C');
+
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'load "Mix \\"B\\" \\\\ C"',
+      );
+    });
+
+    it("should rename a playlist", async () => {
+      await client.renamePlaylist("Friday Mix", "Saturday Mix");
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'rename "Friday Mix" "Saturday Mix"',
+      );
+    });
+
+    it("should edit stored playlist contents", async () => {
+      await client.storedPlaylistAdd("Friday Mix", "test3.mp3");
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'playlistadd "Friday Mix" "test3.mp3"',
+      );
+
+      await client.storedPlaylistDelete("Friday Mix", 2);
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'playlistdelete "Friday Mix" "2"',
+      );
+
+      await client.storedPlaylistMove("Friday Mix", 0, 1);
+      expect((client as any).client.sendCommand).toHaveBeenCalledWith(
+        'playlistmove "Friday Mix" "0" "1"',
+      );
+
+      await client.storedPlaylistClear("Friday Mix");
       expect((client as any).client.sendCommand).toHaveBeenCalledWith(
-        "clear",
-        [],
+        'playlistclear "Friday Mix"',
       );
     });
   });
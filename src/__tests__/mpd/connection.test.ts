@@ -0,0 +1,266 @@
+import net from "net";
+import {
+  detectImageMimeType,
+  escapeArg,
+  readBinary,
+  sendCommandList,
+} from "../../mpd/connection";
+import { MpdConnectionError, MpdErrorCode } from "../../mpd/errors";
+
+// PNG signature followed by bytes that are not valid UTF-8
+const PICTURE = Buffer.concat([
+  Buffer.from("89504e470d0a1a0a", "hex"),
+  Buffer.from([0xff, 0xfe, 0x00, 0x0a, 0x80, 0xc3, 0x28, 0x4f, 0x4b, 0x0a]),
+]);
+const CHUNK_SIZE = 7;
+
+/**
+ * Minimal MPD server answering binary commands in small chunks
+ */
+function createServer(
+  handler: (command: string, socket: net.Socket) => void,
+): Promise<{ server: net.Server; port: number }> {
+  return new Promise((resolve) => {
+    const server = net.createServer((socket) => {
+      socket.write("OK MPD 0.23.5\n");
+      let pending = "";
+      socket.on("data", (chunk) => {
+        pending += chunk.toString("utf8");
+        let end: number;
+        while ((end = pending.indexOf("\n")) >= 0) {
+          handler(pending.slice(0, end), socket);
+          pending = pending.slice(end + 1);
+        }
+      });
+    });
+    server.listen(0, "127.0.0.1", () => {
+      resolve({ server, port: (server.address() as net.AddressInfo).port });
+    });
+  });
+}
+
+function sendChunk(socket: net.Socket, offset: number, type?: string) {
+  const chunk = PICTURE.subarray(offset, offset + CHUNK_SIZE);
+  socket.write(
+    Buffer.concat([
+      Buffer.from(
+        `size: ${PICTURE.length}\n` +
+          (type ? `type: ${type}\n` : "") +
+          `binary: ${chunk.length}\n`,
+      ),
+      chunk,
+      Buffer.from("\nOK\n"),
+    ]),
+  );
+}
+
+describe("binary responses", () => {
+  let server: net.Server;
+  let port: number;
+  let commands: string[];
+
+  beforeEach(async () => {
+    commands = [];
+    ({ server, port } = await createServer((command, socket) => {
+      commands.push(command);
+      const [name, uri, offset] =
+        command
+          .match(/^(\w+)(?: "((?:[^"\\]|\\.)*)")?(?: "(\d+)")?/)
+          ?.slice(1) ?? [];
+
+      if (name === "binarylimit") {
+        socket.write("ACK [5@0] {binarylimit} unknown command\n");
+      } else if (uri === "slow.mp3") {
+        // Never answer
+      } else if (uri === "missing.mp3") {
+        socket.write(`ACK [50@0] {${name}} No file exists\n`);
+      } else if (name === "readpicture" && uri === "plain.mp3") {
+        socket.write("OK\n");
+      } else if (name === "albumart") {
+        sendChunk(socket, parseInt(offset, 10));
+      } else if (name === "readpicture") {
+        sendChunk(socket, parseInt(offset, 10), "image/png");
+      } else {
+        socket.write(`ACK [5@0] {${name}} unknown command\n`);
+      }
+    }));
+  });
+
+  afterEach((done) => {
+    server.close(() => done());
+  });
+
+  it("should read all chunks without corrupting the data", async () => {
+    const result = await readBinary(
+      { host: "127.0.0.1", port },
+      "albumart",
+      "Artist/Album/01.mp3",
+    );
+
+    expect(result?.data.equals(PICTURE)).toBe(true);
+    expect(commands).toEqual([
+      'binarylimit "1048576"',
+      'albumart "Artist/Album/01.mp3" "0"',
+      'albumart "Artist/Album/01.mp3" "7"',
+      'albumart "Artist/Album/01.mp3" "14"',
+    ]);
+  });
+
+  it("should return the fields sent with the picture", async () => {
+    const result = await readBinary(
+      { host: "127.0.0.1", port },
+      "readpicture",
+      "song.flac",
+    );
+
+    expect(result?.fields.type).toBe("image/png");
+    expect(result?.fields.size).toBe(PICTURE.length.toString());
+  });
+
+  it("should resolve to undefined when there is no picture", async () => {
+    await expect(
+      readBinary({ host: "127.0.0.1", port }, "albumart", "missing.mp3"),
+    ).resolves.toBeUndefined();
+    await expect(
+      readBinary({ host: "127.0.0.1", port }, "readpicture", "plain.mp3"),
+    ).resolves.toBeUndefined();
+  });
+
+  it("should reject other errors", async () => {
+    await expect(
+      readBinary(
+        { host: "127.0.0.1", port },
+        "unknown" as "albumart",
+        "song.mp3",
+      ),
+    ).rejects.toThrow("unknown command");
+  });
+
+  it("should give up when MPD stops responding", async () => {
+    await expect(
+      readBinary(
+        { host: "127.0.0.1", port, timeout: 50 },
+        "albumart",
+        "slow.mp3",
+      ),
+    ).rejects.toThrow("MPD did not respond within 50 ms");
+  });
+});
+
+describe("command lists", () => {
+  let server: net.Server;
+  let port: number;
+  let commands: string[];
+
+  beforeEach(async () => {
+    commands = [];
+    let list: string[] | undefined;
+    ({ server, port } = await createServer((command, socket) => {
+      commands.push(command);
+
+      if (command === "command_list_ok_begin") {
+        list = [];
+      } else if (command !== "command_list_end" && list) {
+        list.push(command);
+      } else if (command === "command_list_end" && list) {
+        // Answer every addid until the first missing song
+        let response = "";
+        for (const [index, item] of list.entries()) {
+          if (item.includes("slow.mp3")) return;
+          if (item.includes("missing.mp3")) {
+            socket.write(`${response}ACK [50@${index}] {addid} No such song\n`);
+            return;
+          }
+          response += `Id: ${index + 10}\nlist_OK\n`;
+        }
+        list = undefined;
+        socket.write(`${response}OK\n`);
+      } else {
+        socket.write("OK\n");
+      }
+    }));
+  });
+
+  afterEach((done) => {
+    server.close(() => done());
+  });
+
+  it("should return the response of every command", async () => {
+    const results = await sendCommandList({ host: "127.0.0.1", port }, [
+      { command: "addid", args: ["a.mp3"] },
+      { command: "addid", args: ["b.mp3", "3"] },
+    ]);
+
+    expect(results).toEqual(["Id: 10", "Id: 11"]);
+    expect(commands).toEqual([
+      "command_list_ok_begin",
+      'addid "a.mp3"',
+      'addid "b.mp3" "3"',
+      "command_list_end",
+    ]);
+  });
+
+  it("should switch partitions before the list", async () => {
+    await sendCommandList({ host: "127.0.0.1", port, partition: "kitchen" }, [
+      { command: "addid", args: ["a.mp3"] },
+    ]);
+
+    expect(commands[0]).toBe('partition "kitchen"');
+  });
+
+  it("should authenticate before anything else", async () => {
+    await sendCommandList(
+      { host: "127.0.0.1", port, password: "secret", partition: "kitchen" },
+      [{ command: "addid", args: ["a.mp3"] }],
+    );
+
+    expect(commands.slice(0, 2)).toEqual([
+      'password "secret"',
+      'partition "kitchen"',
+    ]);
+  });
+
+  it("should reject with the failing command", async () => {
+    await expect(
+      sendCommandList({ host: "127.0.0.1", port }, [
+        { command: "addid", args: ["a.mp3"] },
+        { command: "addid", args: ["missing.mp3"] },
+      ]),
+    ).rejects.toMatchObject({
+      code: MpdErrorCode.NoExist,
+      command: "addid",
+      index: 1,
+      message: "No such song",
+    });
+  });
+
+  it("should give up when MPD stops responding", async () => {
+    await expect(
+      sendCommandList({ host: "127.0.0.1", port, timeout: 50 }, [
+        { command: "addid", args: ["slow.mp3"] },
+      ]),
+    ).rejects.toBeInstanceOf(MpdConnectionError);
+  });
+});
+
+describe("binary helpers", () => {
+  it("should quote arguments", () => {
+    expect(escapeArg('AC/DC "Live"\\1.mp3')).toBe(
+      '"AC/DC \\"Live\\"\\\\1.mp3"',
+    );
+  });
+
+  it("should detect image types", () => {
+    expect(detectImageMimeType(PICTURE)).toBe("image/png");
+    expect(detectImageMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe(
+      "image/jpeg",
+    );
+    expect(detectImageMimeType(Buffer.from("GIF89a"))).toBe("image/gif");
+    expect(detectImageMimeType(Buffer.from("RIFF\0\0\0\0WEBPVP8 "))).toBe(
+      "image/webp",
+    );
+    expect(detectImageMimeType(Buffer.from("hello"))).toBe(
+      "application/octet-stream",
+    );
+  });
+});
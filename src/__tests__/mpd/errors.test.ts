@@ -0,0 +1,28 @@
+import { MpdError, MpdErrorCode } from "../../mpd/errors";
+
+describe("MpdError", () => {
+  it("should parse ACK responses", () => {
+    const error = MpdError.parse("ACK [50@2] {play} No such song");
+
+    expect(error).toBeInstanceOf(MpdError);
+    expect(error.code).toBe(MpdErrorCode.NoExist);
+    expect(error.index).toBe(2);
+    expect(error.command).toBe("play");
+    expect(error.message).toBe("No such song");
+  });
+
+  it("should parse ACK responses without a command", () => {
+    const error = MpdError.parse('ACK [5@0] {} unknown command "foo"');
+
+    expect(error.code).toBe(MpdErrorCode.Unknown);
+    expect(error.command).toBe("");
+    expect(error.message).toBe('unknown command "foo"');
+  });
+
+  it("should keep unexpected lines as the message", () => {
+    const error = MpdError.parse("ACK something odd");
+
+    expect(error.code).toBe(MpdErrorCode.Unknown);
+    expect(error.message).toBe("ACK something odd");
+  });
+});
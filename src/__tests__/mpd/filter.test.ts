@@ -0,0 +1,94 @@
+import {
+  and,
+  audioFormat,
+  base,
+  contains,
+  eq,
+  matches,
+  modifiedSince,
+  ne,
+  not,
+  quoteFilterValue,
+  startsWith,
+  toFilterExpression,
+} from "../../mpd/filter";
+
+describe("filter expressions", () => {
+  describe("tag comparisons", () => {
+    it("should build tag expressions for every operator", () => {
+      expect(toFilterExpression(eq("artist", "Deftones"))).toBe(
+        "(artist == 'Deftones')",
+      );
+      expect(toFilterExpression(ne("album", "Live"))).toBe("(album != 'Live')");
+      expect(toFilterExpression(contains("title", "quiet"))).toBe(
+        "(title contains 'quiet')",
+      );
+      expect(toFilterExpression(startsWith("date", "1999"))).toBe(
+        "(date starts_with '1999')",
+      );
+      expect(toFilterExpression(matches("genre", "^(Rock|Metal)$"))).toBe(
+        "(genre =~ '^(Rock|Metal)$')",
+      );
+    });
+  });
+
+  describe("escaping", () => {
+    it("should escape quotes and backslashes", () => {
+      expect(quoteFilterValue(`Guns N' Roses`)).toBe(`'Guns N\\' Roses'`);
+      expect(quoteFilterValue(`say "hi"`)).toBe(`'say \\"hi\\"'`);
+      expect(quoteFilterValue(`back\\slash`)).toBe(`'back\\\\slash'`);
+    });
+  });
+
+  describe("combinators", () => {
+    it("should combine expressions with AND", () => {
+      expect(
+        toFilterExpression(
+          and(eq("artist", "Deftones"), eq("album", "White Pony")),
+        ),
+      ).toBe("((artist == 'Deftones') AND (album == 'White Pony'))");
+    });
+
+    it("should not wrap a single AND operand", () => {
+      expect(toFilterExpression(and(eq("artist", "Deftones")))).toBe(
+        "(artist == 'Deftones')",
+      );
+    });
+
+    it("should reject an empty AND", () => {
+      expect(() => and()).toThrow("at least one expression");
+    });
+
+    it("should negate expressions", () => {
+      expect(toFilterExpression(not(contains("album", "live")))).toBe(
+        "(!(album contains 'live'))",
+      );
+    });
+  });
+
+  describe("special expressions", () => {
+    it("should build base expressions", () => {
+      expect(toFilterExpression(base("Rock/Deftones"))).toBe(
+        "(base 'Rock/Deftones')",
+      );
+    });
+
+    it("should build modified-since expressions", () => {
+      expect(toFilterExpression(modifiedSince("2024-01-01T00:00:00Z"))).toBe(
+        "(modified-since '2024-01-01T00:00:00Z')",
+      );
+      expect(
+        toFilterExpression(modifiedSince(new Date("2024-01-01T00:00:00Z"))),
+      ).toBe("(modified-since '1704067200')");
+    });
+
+    it("should build exact and masked audio format expressions", () => {
+      expect(toFilterExpression(audioFormat("44100:16:2"))).toBe(
+        "(AudioFormat == '44100:16:2')",
+      );
+      expect(toFilterExpression(audioFormat("*:24:*"))).toBe(
+        "(AudioFormat =~ '*:24:*')",
+      );
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { applyChanges, diffQueues, MpdQueueMirror } from "../../mpd/queue";
+import { MpdSong } from "../../mpd/types";
+import { MockMpdClient } from "../mocks/mpd-client.mock";
+
+const song = (id: number, pos: number): MpdSong => ({
+  file: `song${id}.mp3`,
+  id,
+  pos,
+});
+
+describe("applyChanges", () => {
+  it("should replace changed positions and cut the queue", () => {
+    const queue = [song(1, 0), song(2, 1), song(3, 2)];
+
+    expect(applyChanges(queue, [song(3, 1)], 2)).toEqual([
+      song(1, 0),
+      song(3, 1),
+    ]);
+    expect(applyChanges(queue, [song(4, 3)], 4)).toEqual([
+      ...queue,
+      song(4, 3),
+    ]);
+  });
+});
+
+describe("diffQueues", () => {
+  it("should report added and removed songs", () => {
+    const diff = diffQueues(
+      [song(1, 0), song(2, 1), song(3, 2)],
+      [song(1, 0), song(3, 1), song(4, 2)],
+    );
+
+    expect(diff.added).toEqual([song(4, 2)]);
+    expect(diff.removed).toEqual([song(2, 1)]);
+    expect(diff.moved).toEqual([]);
+  });
+
+  it("should only report songs whose order changed as moved", () => {
+    const diff = diffQueues(
+      [song(1, 0), song(2, 1), song(3, 2), song(4, 3)],
+      [song(4, 0), song(1, 1), song(2, 2), song(3, 3)],
+    );
+
+    expect(diff.moved).toEqual([{ song: song(4, 0), from: 3, to: 0 }]);
+  });
+});
+
+describe("MpdQueueMirror", () => {
+  let client: MockMpdClient;
+  let mirror: MpdQueueMirror;
+
+  beforeEach(() => {
+    client = new MockMpdClient();
+    client.mockPlaylist = [song(1, 0), song(2, 1)];
+    client.mockStatus.playlist = 5;
+    client.mockStatus.playlistlength = 2;
+    mirror = new MpdQueueMirror(client);
+  });
+
+  it("should read the whole queue on the first sync", async () => {
+    const diff = await mirror.sync();
+
+    expect(client.playlistInfo).toHaveBeenCalled();
+    expect(mirror.songs).toEqual([song(1, 0), song(2, 1)]);
+    expect(mirror.version).toBe(5);
+    expect(diff.added).toHaveLength(2);
+    expect(diff.toVersion).toBe(5);
+  });
+
+  it("should only read changes after that", async () => {
+    await mirror.sync();
+    client.mockStatus.playlist = 6;
+    client.mockStatus.playlistlength = 3;
+    client.plChanges.mockResolvedValueOnce([song(3, 2)]);
+
+    const diff = await mirror.sync();
+
+    expect(client.plChanges).toHaveBeenCalledWith(5);
+    expect(client.playlistInfo).toHaveBeenCalledTimes(1);
+    expect(mirror.songs).toEqual([song(1, 0), song(2, 1), song(3, 2)]);
+    expect(diff).toEqual({
+      fromVersion: 5,
+      toVersion: 6,
+      added: [song(3, 2)],
+      removed: [],
+      moved: [],
+    });
+  });
+
+  it("should not read anything while the version is unchanged", async () => {
+    await mirror.sync();
+    await mirror.sync();
+
+    expect(client.playlistInfo).toHaveBeenCalledTimes(1);
+    expect(client.plChanges).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,24 @@
+import { firstTag, formatTag, tagValues } from "../../mpd/tags";
+
+describe("tags", () => {
+  it("should list the values of a tag", () => {
+    expect(tagValues(undefined)).toEqual([]);
+    expect(tagValues("Jazz")).toEqual(["Jazz"]);
+    expect(tagValues(["Jazz", "Vocal"])).toEqual(["Jazz", "Vocal"]);
+  });
+
+  it("should pick the first value of a tag", () => {
+    expect(firstTag(undefined)).toBeUndefined();
+    expect(firstTag("1956")).toBe("1956");
+    expect(firstTag(["1956", "1957"])).toBe("1956");
+  });
+
+  it("should join the values of a tag for display", () => {
+    expect(formatTag(undefined)).toBeUndefined();
+    expect(formatTag([])).toBeUndefined();
+    expect(formatTag(["Ella Fitzgerald", "Louis Armstrong"])).toBe(
+      "Ella Fitzgerald, Louis Armstrong",
+    );
+    expect(formatTag(["Jazz", "Vocal"], "; ")).toBe("Jazz; Vocal");
+  });
+});
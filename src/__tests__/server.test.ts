@@ -1,17 +1,15 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import {
-  CallToolRequestSchema,
-  ListResourcesRequestSchema,
-  ListToolsRequestSchema,
-  ReadResourceRequestSchema,
-} from "@modelcontextprotocol/sdk/types.js";
 import { MockMpdClient } from "./mocks/mpd-client.mock";
 
+// Clients the server creates, the default one first
+const mockClients: MockMpdClient[] = [];
+
 // Mock the actual MPD client module
 jest.mock("../mpd/client", () => ({
   MpdClientImpl: jest.fn().mockImplementation(() => {
-    return new MockMpdClient();
+    const client = new MockMpdClient();
+    mockClients.push(client);
+    return client;
   }),
 }));
 
@@ -28,58 +26,50 @@ jest.mock("@modelcontextprotocol/sdk/server/index.js", () => {
     "@modelcontextprotocol/sdk/server/index.js",
   );
 
-  // We'll store the registered handlers here
+  // We'll store the registered handlers here, by request method
   const handlers: Record<string, any> = {};
 
   return {
     ...originalModule,
     Server: jest.fn().mockImplementation(() => ({
       connect: jest.fn().mockResolvedValue(undefined),
+      sendResourceUpdated: jest.fn().mockResolvedValue(undefined),
       setRequestHandler: jest
         .fn()
         .mockImplementation((schema: any, handler: any) => {
-          // Store the handler with a key derived from schema name
-          const schemaName = schema.name || "unknown";
-          handlers[schemaName] = handler;
+          handlers[schema.shape.method.value] = handler;
         }),
       // Expose a method to access the stored handlers for testing
-      __getHandler: (name: string) => handlers[name],
+      __getHandler: (method: string) => handlers[method],
     })),
   };
 });
 
 describe("MCP Server", () => {
   let server: any;
-  let mpdClient: MockMpdClient;
-
-  beforeEach(() => {
-    // Clear all mocks
-    jest.clearAllMocks();
 
-    // Import the server (which will be automatically mocked)
-    // This will trigger the registration of handlers
-    jest.isolateModules(() => {
-      require("../server");
-    });
+  beforeAll(() => {
+    // Importing the server registers its handlers
+    require("../server");
+  });
 
-    // Get instance of the mocked server
+  beforeEach(() => {
+    // Every mocked Server shares the registered handlers
     server = new Server({
       name: "test-server",
       version: "1.0.0",
     });
-
-    // The MPD client should be mocked via the module mock above
-    mpdClient = new MockMpdClient();
+    mockClients[0].connected = true;
   });
 
   describe("ListResourcesRequestSchema handler", () => {
     it("should list all available MPD resources", async () => {
-      const handler = server.__getHandler("ListResourcesRequestSchema");
+      const handler = server.__getHandler("resources/list");
       const result = await handler({});
 
       expect(result).toHaveProperty("resources");
       expect(Array.isArray(result.resources)).toBe(true);
-      expect(result.resources.length).toBe(5); // We expect 5 resources
+      expect(result.resources.length).toBe(10); // We expect 10 resources
 
       // Check if all required resources are present
       const resourceUris = result.resources.map((r: any) => r.uri);
@@ -88,12 +78,14 @@ describe("MCP Server", () => {
       expect(resourceUris).toContain("mpd://playlist");
       expect(resourceUris).toContain("mpd://stats");
       expect(resourceUris).toContain("mpd://library");
+      expect(resourceUris).toContain("mpd://outputs");
+      expect(resourceUris).toContain("mpd://partitions");
     });
   });
 
   describe("ReadResourceRequestSchema handler", () => {
     it("should read MPD status resource", async () => {
-      const handler = server.__getHandler("ReadResourceRequestSchema");
+      const handler = server.__getHandler("resources/read");
       const result = await handler({
         params: {
           uri: "mpd://status",
@@ -113,7 +105,7 @@ describe("MCP Server", () => {
     });
 
     it("should read current song resource", async () => {
-      const handler = server.__getHandler("ReadResourceRequestSchema");
+      const handler = server.__getHandler("resources/read");
       const result = await handler({
         params: {
           uri: "mpd://current-song",
@@ -128,7 +120,7 @@ describe("MCP Server", () => {
     });
 
     it("should read playlist resource", async () => {
-      const handler = server.__getHandler("ReadResourceRequestSchema");
+      const handler = server.__getHandler("resources/read");
       const result = await handler({
         params: {
           uri: "mpd://playlist",
@@ -138,12 +130,13 @@ describe("MCP Server", () => {
       expect(result.contents[0]).toHaveProperty("uri", "mpd://playlist");
 
       const parsedJson = JSON.parse(result.contents[0].text);
-      expect(Array.isArray(parsedJson)).toBe(true);
-      expect(parsedJson.length).toBeGreaterThan(0);
+      expect(parsedJson.summary).toHaveProperty("total");
+      expect(Array.isArray(parsedJson.songs)).toBe(true);
+      expect(parsedJson.songs.length).toBeGreaterThan(0);
     });
 
     it("should read stats resource", async () => {
-      const handler = server.__getHandler("ReadResourceRequestSchema");
+      const handler = server.__getHandler("resources/read");
       const result = await handler({
         params: {
           uri: "mpd://stats",
@@ -159,7 +152,7 @@ describe("MCP Server", () => {
     });
 
     it("should read library resource", async () => {
-      const handler = server.__getHandler("ReadResourceRequestSchema");
+      const handler = server.__getHandler("resources/read");
       const result = await handler({
         params: {
           uri: "mpd://library",
@@ -169,11 +162,12 @@ describe("MCP Server", () => {
       expect(result.contents[0]).toHaveProperty("uri", "mpd://library");
 
       const parsedJson = JSON.parse(result.contents[0].text);
-      expect(Array.isArray(parsedJson)).toBe(true);
+      expect(parsedJson.summary).toHaveProperty("total");
+      expect(Array.isArray(parsedJson.songs)).toBe(true);
     });
 
     it("should throw an error for unknown resource", async () => {
-      const handler = server.__getHandler("ReadResourceRequestSchema");
+      const handler = server.__getHandler("resources/read");
 
       await expect(
         handler({
@@ -187,48 +181,44 @@ describe("MCP Server", () => {
 
   describe("ListToolsRequestSchema handler", () => {
     it("should list all available MPD tools", async () => {
-      const handler = server.__getHandler("ListToolsRequestSchema");
+      const handler = server.__getHandler("tools/list");
       const result = await handler({});
 
       expect(result).toHaveProperty("tools");
       expect(Array.isArray(result.tools)).toBe(true);
-      expect(result.tools.length).toBe(5); // We expect 5 tools
 
-      // Check if all required tools are present
+      // Check if the main tools are present
       const toolNames = result.tools.map((t: any) => t.name);
-      expect(toolNames).toContain("playback_control");
-      expect(toolNames).toContain("volume_control");
-      expect(toolNames).toContain("search_music");
-      expect(toolNames).toContain("playlist_manager");
-      expect(toolNames).toContain("playback_options");
+      expect(toolNames).toContain("resume");
+      expect(toolNames).toContain("volume");
+      expect(toolNames).toContain("search");
+      expect(toolNames).toContain("playlist");
+      expect(toolNames).toContain("settings");
     });
   });
 
   describe("CallToolRequestSchema handler", () => {
-    it("should execute playback control play action", async () => {
-      const handler = server.__getHandler("CallToolRequestSchema");
+    it("should resume playback", async () => {
+      const handler = server.__getHandler("tools/call");
       const result = await handler({
         params: {
-          name: "playback_control",
-          arguments: {
-            action: "play",
-          },
+          name: "resume",
+          arguments: {},
         },
       });
 
       expect(result).toHaveProperty("content");
       expect(Array.isArray(result.content)).toBe(true);
       expect(result.content[0]).toHaveProperty("type", "text");
-      expect(result.content[0].text).toContain(
-        "Successfully executed 'play' command",
-      );
+      expect(result.content[0].text).toContain("Now playing");
+      expect(mockClients[0].play).toHaveBeenCalled();
     });
 
-    it("should execute volume control", async () => {
-      const handler = server.__getHandler("CallToolRequestSchema");
+    it("should set the volume", async () => {
+      const handler = server.__getHandler("tools/call");
       const result = await handler({
         params: {
-          name: "volume_control",
+          name: "volume",
           arguments: {
             volume: 75,
           },
@@ -236,13 +226,14 @@ describe("MCP Server", () => {
       });
 
       expect(result.content[0].text).toContain("Volume set to 75%");
+      expect(mockClients[0].setVolume).toHaveBeenCalledWith(75);
     });
 
-    it("should execute search music", async () => {
-      const handler = server.__getHandler("CallToolRequestSchema");
+    it("should search music", async () => {
+      const handler = server.__getHandler("tools/call");
       const result = await handler({
         params: {
-          name: "search_music",
+          name: "search",
           arguments: {
             type: "artist",
             query: "Test Artist",
@@ -253,26 +244,26 @@ describe("MCP Server", () => {
       expect(result.content[0].text).toContain("Found");
     });
 
-    it("should execute playlist manager add action", async () => {
-      const handler = server.__getHandler("CallToolRequestSchema");
+    it("should add a song to the playlist", async () => {
+      const handler = server.__getHandler("tools/call");
       const result = await handler({
         params: {
-          name: "playlist_manager",
+          name: "playlist",
           arguments: {
             action: "add",
-            uri: "test3.mp3",
+            uriOrQuery: "test3.mp3",
           },
         },
       });
 
-      expect(result.content[0].text).toContain("Added 'test3.mp3' to playlist");
+      expect(result.content[0].text).toContain("Added 'test3.mp3'");
     });
 
-    it("should execute playlist manager clear action", async () => {
-      const handler = server.__getHandler("CallToolRequestSchema");
+    it("should clear the playlist", async () => {
+      const handler = server.__getHandler("tools/call");
       const result = await handler({
         params: {
-          name: "playlist_manager",
+          name: "playlist",
           arguments: {
             action: "clear",
           },
@@ -282,11 +273,11 @@ describe("MCP Server", () => {
       expect(result.content[0].text).toContain("Playlist cleared");
     });
 
-    it("should execute playback options", async () => {
-      const handler = server.__getHandler("CallToolRequestSchema");
+    it("should update playback options", async () => {
+      const handler = server.__getHandler("tools/call");
       const result = await handler({
         params: {
-          name: "playback_options",
+          name: "settings",
           arguments: {
             repeat: true,
             random: true,
@@ -294,13 +285,74 @@ describe("MCP Server", () => {
         },
       });
 
-      expect(result.content[0].text).toContain("Updated playback options");
       expect(result.content[0].text).toContain("repeat: on");
       expect(result.content[0].text).toContain("random: on");
     });
 
+    it("should reject MixRamp settings that aren't numbers", async () => {
+      const handler = server.__getHandler("tools/call");
+
+      await expect(
+        handler({
+          params: {
+            name: "settings",
+            arguments: { mixrampdb: "loud" },
+          },
+        }),
+      ).rejects.toThrow("MixRamp threshold must be a number of decibels");
+      await expect(
+        handler({
+          params: {
+            name: "settings",
+            arguments: { mixrampdelay: "soon" },
+          },
+        }),
+      ).rejects.toThrow("MixRamp delay must be a number of seconds");
+      expect(mockClients[0].setMixrampDb).not.toHaveBeenCalled();
+      expect(mockClients[0].setMixrampDelay).not.toHaveBeenCalled();
+    });
+
+    it("should create a partition without connecting to it", async () => {
+      const handler = server.__getHandler("tools/call");
+      const clients = mockClients.length;
+
+      const result = await handler({
+        params: {
+          name: "partitions",
+          arguments: {
+            action: "create",
+            name: "kitchen",
+            partition: "kitchen",
+          },
+        },
+      });
+
+      expect(result.content[0].text).toBe("Created partition 'kitchen'");
+      expect(mockClients[0].newPartition).toHaveBeenCalledWith("kitchen");
+      expect(mockClients.length).toBe(clients);
+    });
+
+    it("should stop waiting for a database update after the timeout", async () => {
+      const client = mockClients[0];
+      client.mockStatus = { ...client.mockStatus, updating_db: 1 };
+      const listeners = client.listenerCount("update");
+
+      const handler = server.__getHandler("tools/call");
+      const result = await handler({
+        params: {
+          name: "library_update",
+          arguments: { wait: true, timeout: 0.01 },
+        },
+      });
+
+      expect(result.content[0].text).toContain("is still running");
+      expect(client.listenerCount("update")).toBe(listeners);
+      expect(client.listenerCount("database")).toBe(0);
+      client.mockStatus = { ...client.mockStatus, updating_db: undefined };
+    });
+
     it("should throw an error for unknown tool", async () => {
-      const handler = server.__getHandler("CallToolRequestSchema");
+      const handler = server.__getHandler("tools/call");
 
       await expect(
         handler({
@@ -0,0 +1,142 @@
+import { and, contains, startsWith } from "../mpd/filter";
+import { MpdClient, MpdFilter, MpdOutput } from "../mpd/types";
+
+/**
+ * Field criteria accepted by the search and play tools
+ */
+export const SEARCH_CRITERIA_PROPERTIES = {
+  artist: {
+    type: "string",
+    description: "Optional: Artist name (or part of it) to match",
+  },
+  album: {
+    type: "string",
+    description: "Optional: Album name (or part of it) to match",
+  },
+  title: {
+    type: "string",
+    description: "Optional: Song title (or part of it) to match",
+  },
+  albumartist: {
+    type: "string",
+    description: "Optional: Album artist (or part of it) to match",
+  },
+  genre: {
+    type: "string",
+    description: "Optional: Genre (or part of it) to match",
+  },
+  composer: {
+    type: "string",
+    description: "Optional: Composer (or part of it) to match",
+  },
+  year: {
+    type: "string",
+    description: "Optional: Release year to match, e.g. '1999'",
+  },
+};
+
+/**
+ * Resolve a seek position against the current song to a time in seconds.
+ * Accepts times ("1:23", "90s", "90"), offsets ("+30s", "-1:00") and
+ * percentages ("50%"); the result is kept within the song.
+ */
+export function parseSeekPosition(
+  position: string,
+  elapsed: number,
+  duration?: number,
+): number {
+  const value = position.trim();
+  let target: number;
+
+  const percentage = value.match(/^(\d+(?:\.\d+)?)\s*%$/);
+  const time = value.match(/^([+-])?\s*((?:\d+:){0,2}\d+(?:\.\d+)?)\s*s?$/);
+
+  if (percentage) {
+    if (duration === undefined) {
+      throw new Error("The current song has no known length");
+    }
+    target = (duration * parseFloat(percentage[1])) / 100;
+  } else if (time) {
+    // "1:02:03" -> 3723 seconds
+    const seconds = time[2]
+      .split(":")
+      .reduce((total, part) => total * 60 + parseFloat(part), 0);
+    target =
+      time[1] === "+"
+        ? elapsed + seconds
+        : time[1] === "-"
+          ? elapsed - seconds
+          : seconds;
+  } else {
+    throw new Error(
+      `Invalid position '${position}'. Use a time like '1:23' or '90s', an offset like '+30s', or a percentage like '50%'`,
+    );
+  }
+
+  return Math.max(
+    0,
+    duration !== undefined ? Math.min(target, duration) : target,
+  );
+}
+
+/**
+ * Find an audio output by its id or (case-insensitive) name
+ */
+export async function resolveOutput(
+  client: MpdClient,
+  idOrName: string,
+): Promise<MpdOutput> {
+  const outputs = await client.outputs();
+  const name = idOrName.trim().toLowerCase();
+
+  const output =
+    outputs.find((item) => item.name.toLowerCase() === name) ||
+    outputs.find((item) => /^\d+$/.test(name) && item.id === Number(name)) ||
+    outputs.find((item) => item.name.toLowerCase().includes(name));
+
+  if (!output) {
+    const available = outputs
+      .map((item) => `${item.id} (${item.name})`)
+      .join(", ");
+    throw new Error(
+      `No output matching '${idOrName}'. Available outputs: ${available}`,
+    );
+  }
+
+  return output;
+}
+
+/**
+ * Build a filter expression from the field criteria of the search and play
+ * tools. Returns undefined when only a plain query was given, so the more
+ * forgiving single-field search is used instead.
+ */
+export function buildSearchCriteria(
+  args: Record<string, unknown>,
+): { filter: MpdFilter; description: string } | undefined {
+  const filters: MpdFilter[] = [];
+  const parts: string[] = [];
+
+  for (const field of Object.keys(SEARCH_CRITERIA_PROPERTIES)) {
+    if (args[field] === undefined || args[field] === "") continue;
+
+    const value = String(args[field]);
+    // Dates are usually full dates ("1999-05-01") or plain years
+    filters.push(
+      field === "year" ? startsWith("date", value) : contains(field, value),
+    );
+    parts.push(`${field} "${value}"`);
+  }
+
+  if (filters.length === 0) {
+    return undefined;
+  }
+
+  if (args.query) {
+    const type = args.type ? String(args.type) : "any";
+    filters.unshift(contains(type, String(args.query)));
+    parts.unshift(`"${args.query}"`);
+  }
+
+  return { filter: and(...filters), description: parts.join(", ") };
+}
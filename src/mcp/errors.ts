@@ -0,0 +1,36 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { MpdConnectionError, MpdError, MpdErrorCode } from "../mpd/errors";
+
+// MCP error codes for MPD failures, next to JSON-RPC's standard ones.
+// -32002 is what MCP uses for resources that don't exist.
+export const NOT_FOUND_ERROR = -32002;
+export const PERMISSION_ERROR = -32003;
+export const UNAVAILABLE_ERROR = -32004;
+
+/**
+ * Map MPD and connection errors to MCP errors with distinct codes
+ */
+export function toMcpError(error: unknown): unknown {
+  if (error instanceof MpdConnectionError) {
+    return new McpError(UNAVAILABLE_ERROR, error.message);
+  }
+  if (!(error instanceof MpdError)) {
+    return error;
+  }
+
+  const data = { mpdCode: error.code, command: error.command };
+  switch (error.code) {
+    case MpdErrorCode.NoExist:
+      return new McpError(NOT_FOUND_ERROR, error.message, data);
+    case MpdErrorCode.Permission:
+    case MpdErrorCode.Password:
+      return new McpError(PERMISSION_ERROR, error.message, data);
+    case MpdErrorCode.Arg:
+    case MpdErrorCode.NotList:
+    case MpdErrorCode.Exist:
+    case MpdErrorCode.PlaylistMax:
+      return new McpError(ErrorCode.InvalidParams, error.message, data);
+    default:
+      return new McpError(ErrorCode.InternalError, error.message, data);
+  }
+}
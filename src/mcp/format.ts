@@ -0,0 +1,14 @@
+/**
+ * Format seconds as h:mm:ss, or m:ss below an hour
+ */
+export function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60)
+    .toString()
+    .padStart(2, "0");
+
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, "0")}:${secs}`
+    : `${minutes}:${secs}`;
+}
@@ -0,0 +1,55 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { MpdSong } from "../mpd/types";
+import { formatDuration } from "./format";
+
+// Songs per page of the library and playlist resources
+export const RESOURCE_PAGE_SIZE = 500;
+
+/**
+ * Read the page offset from the cursor of a paginated resource URI
+ * (mpd://library?cursor=...)
+ */
+export function parseCursor(url: URL): number {
+  const cursor = url.searchParams.get("cursor");
+  if (cursor === null) return 0;
+
+  const offset = Buffer.from(cursor, "base64url").toString();
+  if (!/^\d+$/.test(offset)) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+  }
+  return parseInt(offset, 10);
+}
+
+/**
+ * One page of a paginated song resource, led by a summary of all songs and
+ * with the cursor of the next page. The total duration is left out when it
+ * isn't known.
+ */
+export function songPage(
+  uri: string,
+  offset: number,
+  songs: MpdSong[],
+  total: number,
+  totalDuration?: number,
+): object {
+  const end = offset + songs.length;
+  const nextCursor =
+    songs.length > 0 && end < total
+      ? Buffer.from(String(end)).toString("base64url")
+      : undefined;
+  const nextUrl = new URL(uri);
+  if (nextCursor) nextUrl.searchParams.set("cursor", nextCursor);
+
+  return {
+    summary: {
+      total,
+      totalDuration,
+      totalDurationText:
+        totalDuration !== undefined ? formatDuration(totalDuration) : undefined,
+      page: songs.length > 0 ? `${offset + 1}-${end} of ${total}` : "empty",
+    },
+    nextCursor,
+    nextUri: nextCursor ? nextUrl.toString() : undefined,
+    songs,
+  };
+}
@@ -0,0 +1,84 @@
+import os from "os";
+import { MpdAddress } from "./types";
+
+/**
+ * Parse the ways an MPD server can be addressed:
+ *
+ * - a hostname or IP address, using the given port
+ * - a Unix socket path ("/run/mpd/socket", "~/.mpd/socket")
+ * - an abstract socket ("@mpd")
+ * - any of the above prefixed with a password ("secret@localhost"), as in
+ *   mpc's MPD_HOST
+ * - a URL: "mpd://secret@host:6600" or "mpd:///run/mpd/socket"
+ */
+export function parseMpdAddress(
+  value: string,
+  port: number = 6600,
+): MpdAddress {
+  const address = value.trim() || "localhost";
+
+  if (address.startsWith("mpd://")) {
+    return parseMpdUrl(address, port);
+  }
+
+  // An abstract socket has no password, "secret@@mpd" adds one
+  let password: string | undefined;
+  let location = address;
+  const at = address.indexOf("@");
+  if (at > 0) {
+    password = address.slice(0, at);
+    location = address.slice(at + 1);
+  }
+
+  return { ...parseLocation(location, port), password };
+}
+
+/**
+ * Describe an address for log messages, leaving out the password
+ */
+export function formatMpdAddress(address: MpdAddress): string {
+  if (address.path !== undefined) {
+    return address.path.startsWith("\0")
+      ? `@${address.path.slice(1)}`
+      : address.path;
+  }
+  return `${address.host}:${address.port}`;
+}
+
+function parseMpdUrl(value: string, port: number): MpdAddress {
+  const url = new URL(value);
+  // Both "mpd://secret@host" and "mpd://:secret@host" carry a password
+  const password = decodeURIComponent(url.password || url.username);
+
+  if (!url.hostname) {
+    return {
+      host: "localhost",
+      port,
+      path: decodeURIComponent(url.pathname),
+      password: password || undefined,
+    };
+  }
+
+  return {
+    host: url.hostname.replace(/^\[(.*)\]$/, "$1"),
+    port: url.port ? parseInt(url.port, 10) : port,
+    password: password || undefined,
+  };
+}
+
+function parseLocation(location: string, port: number): MpdAddress {
+  if (location.startsWith("@")) {
+    return { host: "localhost", port, path: `\0${location.slice(1)}` };
+  }
+  if (location.startsWith("/")) {
+    return { host: "localhost", port, path: location };
+  }
+  if (location === "~" || location.startsWith("~/")) {
+    return {
+      host: "localhost",
+      port,
+      path: os.homedir() + location.slice(1),
+    };
+  }
+  return { host: location, port };
+}
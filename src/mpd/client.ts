@@ -1,15 +1,120 @@
-import { MpdClient, MpdSong, MpdStatus, MpdStats } from "./types";
+import { EventEmitter } from "events";
+import {
+  MpdAddress,
+  MpdClient,
+  MpdClientOptions,
+  MpdCommand,
+  MpdConnectionState,
+  MpdCount,
+  MpdDirectoryEntry,
+  MpdFilter,
+  MpdMessage,
+  MpdMount,
+  MpdNeighbor,
+  MpdOutput,
+  MpdPicture,
+  MpdQueryOptions,
+  MpdQueuePosition,
+  MpdRange,
+  MpdReplayGainMode,
+  MpdSong,
+  MpdStickerMatch,
+  MpdStickerType,
+  MpdStatus,
+  MpdStats,
+  MpdSubsystem,
+  MpdTag,
+  MpdTagValue,
+} from "./types";
+import { parseMpdAddress } from "./address";
+import {
+  ConnectionOptions,
+  detectImageMimeType,
+  formatCommand,
+  readBinary,
+  sendCommandList,
+} from "./connection";
+import { MpdConnectionError, MpdError, MpdErrorCode } from "./errors";
+import { contains, eq, toFilterExpression } from "./filter";
+import { SONG_TAGS } from "./tags";
 import MPD from "mpd2";
 
-export class MpdClientImpl implements MpdClient {
+const SUBSYSTEMS: MpdSubsystem[] = [
+  "database",
+  "update",
+  "stored_playlist",
+  "playlist",
+  "player",
+  "mixer",
+  "output",
+  "options",
+  "partition",
+  "sticker",
+  "subscription",
+  "message",
+  "neighbor",
+  "mount",
+];
+
+export class MpdClientImpl extends EventEmitter implements MpdClient {
   private client: any;
-  private host: string;
-  private port: number;
-  private connected: boolean = false;
+  private idleClient: any;
+  private address: MpdAddress;
+  private password?: string;
+  private partition?: string;
+  private subscribedChannels = new Set<string>();
+  private connectionState: MpdConnectionState = "disconnected";
+  private connecting?: Promise<void>;
+  // Rejects when the current connection closes, failing pending commands
+  private connectionLost?: Promise<never>;
+  private reconnect: boolean;
+  private reconnectDelay: number;
+  private maxReconnectDelay: number;
+  private reconnectAttempt = 0;
+  private reconnectTimer?: NodeJS.Timeout;
+
+  /**
+   * The host may also be a Unix socket path, an abstract socket ("@mpd"),
+   * prefixed with "password@" like mpc's MPD_HOST, or an mpd:// URL
+   */
+  constructor(
+    host: string = "localhost",
+    port: number = 6600,
+    options: MpdClientOptions = {},
+  ) {
+    super();
+    this.address = parseMpdAddress(host, port);
+    this.password = options.password ?? this.address.password;
+    this.reconnect = options.reconnect ?? true;
+    this.reconnectDelay = options.reconnectDelay ?? 1000;
+    this.maxReconnectDelay = options.maxReconnectDelay ?? 30000;
+
+    // Open the idle connection as soon as someone is interested in changes
+    this.on("newListener", (event: string | symbol) => {
+      if (this.connected && this.isChangeEvent(event)) {
+        this.startIdle().catch((err) =>
+          console.error("Error starting MPD idle connection:", err),
+        );
+      }
+    });
+  }
 
-  constructor(host: string = "localhost", port: number = 6600) {
-    this.host = host;
-    this.port = port;
+  /**
+   * Current connection state; "state" events report changes
+   */
+  get state(): MpdConnectionState {
+    return this.connectionState;
+  }
+
+  private get connected(): boolean {
+    return this.connectionState === "connected";
+  }
+
+  private setState(state: MpdConnectionState): void {
+    if (this.connectionState === state) return;
+
+    this.connectionState = state;
+    this.emit("state", state);
   }
 
   /**
@@ -18,48 +123,332 @@ export class MpdClientImpl implements MpdClient {
   async connect(): Promise<void> {
     if (this.connected) return;
 
+    // Concurrent callers share one connection attempt
+    if (!this.connecting) {
+      this.connecting = this.open().finally(() => {
+        this.connecting = undefined;
+      });
+    }
+    return this.connecting;
+  }
+
+  /**
+   * Open the command connection and restore the password, partition and
+   * channel subscriptions, which all belong to the connection
+   */
+  private async open(): Promise<void> {
+    const reconnecting = this.connectionState === "reconnecting";
+    this.setState(reconnecting ? "reconnecting" : "connecting");
+
+    // This attempt replaces a scheduled one
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = undefined;
+
     try {
-      this.client = await MPD.connect({
-        host: this.host,
-        port: this.port,
+      const client = await this.connectClient();
+      this.client = client;
+      this.connectionLost = new Promise<never>((_resolve, reject) => {
+        client.on("close", () => {
+          reject(new MpdConnectionError("Connection to MPD lost"));
+          this.handleClose(client);
+        });
       });
-      this.connected = true;
+      // Only commands that are waiting care about the rejection
+      this.connectionLost.catch(() => undefined);
+
+      // New connections always start in the default partition
+      if (this.partition) {
+        await this.send("partition", [this.partition]);
+      }
+
+      for (const channel of Array.from(this.subscribedChannels)) {
+        await this.send("subscribe", [channel]);
+      }
     } catch (err) {
-      this.connected = false;
+      const client = this.client;
+      this.client = undefined;
+      if (client) {
+        await this.closeClient(client).catch(() => undefined);
+      }
+
+      if (reconnecting) {
+        this.scheduleReconnect();
+      } else {
+        this.setState("disconnected");
+      }
       throw err;
     }
+
+    this.reconnectAttempt = 0;
+    this.setState("connected");
+
+    if (this.hasChangeListeners()) {
+      await this.startIdle();
+    }
   }
 
   /**
-   * Disconnect from the MPD server
+   * Open an mpd2 connection. mpd2 sends the password itself, before the idle
+   * it uses to check the connection, which MPD refuses without permissions.
+   */
+  private async connectClient(): Promise<any> {
+    try {
+      return await MPD.connect(this.socketOptions());
+    } catch (err) {
+      const error = this.toMpdError(err, "password");
+      if (error instanceof MpdError && error.code === MpdErrorCode.Password) {
+        throw new MpdError(
+          MpdErrorCode.Password,
+          `MPD rejected the password: ${error.message}`,
+          "password",
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Disconnect from the MPD server and stop reconnecting
    */
   async disconnect(): Promise<void> {
-    if (!this.connected) return;
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = undefined;
+    if (this.connectionState === "disconnected") return;
+
+    // Forget the client first so that its close event isn't taken for a
+    // lost connection
+    const client = this.client;
+    this.client = undefined;
+    this.setState("disconnected");
 
     try {
-      if (this.client && typeof this.client.close === "function") {
-        await this.client.close();
+      await this.stopIdle();
+      if (client) {
+        await this.closeClient(client);
       }
-      this.connected = false;
     } catch (err) {
       console.error("Error disconnecting from MPD:", err);
     }
   }
 
+  /**
+   * Handle the command connection closing without disconnect()
+   */
+  private handleClose(client: any): void {
+    if (client !== this.client) return;
+
+    this.client = undefined;
+    this.stopIdle().catch((err) =>
+      console.error("Error closing MPD idle connection:", err),
+    );
+
+    if (!this.reconnect) {
+      this.setState("disconnected");
+      return;
+    }
+
+    console.error("Connection to MPD lost, reconnecting");
+    this.setState("reconnecting");
+    this.scheduleReconnect();
+  }
+
+  /**
+   * Retry connecting with exponential backoff
+   */
+  private scheduleReconnect(): void {
+    const delay = Math.min(
+      this.reconnectDelay * 2 ** this.reconnectAttempt,
+      this.maxReconnectDelay,
+    );
+    this.reconnectAttempt++;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.connect().catch((err) =>
+        console.error(
+          `Reconnecting to MPD failed, retrying in ${Math.min(
+            this.reconnectDelay * 2 ** this.reconnectAttempt,
+            this.maxReconnectDelay,
+          )}ms:`,
+          (err as Error).message,
+        ),
+      );
+    }, delay);
+
+    // Retrying shouldn't keep the process alive
+    this.reconnectTimer.unref();
+  }
+
+  /**
+   * Open a dedicated connection that sits in MPD's idle mode and re-emits
+   * the reported subsystem changes as events on this client.
+   * Commands are never sent over this connection, so the idle/noidle cycle
+   * handled by mpd2 never has to be interrupted.
+   */
+  private async startIdle(): Promise<void> {
+    if (this.idleClient) return;
+
+    const idleClient = await this.connectClient();
+
+    // Another caller may have opened the connection while we were waiting
+    if (this.idleClient || !this.connected) {
+      await this.closeClient(idleClient);
+      return;
+    }
+
+    // Only changes in our own partition are reported by idle
+    if (this.partition) {
+      await idleClient.sendCommand(
+        formatCommand("partition", [this.partition]),
+      );
+    }
+
+    this.idleClient = idleClient;
+    this.idleClient.on("system", (name: string) => {
+      const subsystem = name as MpdSubsystem;
+      this.emit(subsystem, subsystem);
+      this.emit("change", subsystem);
+    });
+
+    // Reopen an idle connection that closed on its own; when the command
+    // connection is lost as well, reconnecting restarts it
+    this.idleClient.on("close", () => {
+      if (this.idleClient !== idleClient) return;
+
+      this.idleClient = undefined;
+      if (this.connected && this.hasChangeListeners()) {
+        this.startIdle().catch((err) =>
+          console.error("Error restarting MPD idle connection:", err),
+        );
+      }
+    });
+  }
+
+  /**
+   * Close the idle connection if it is open
+   */
+  private async stopIdle(): Promise<void> {
+    if (!this.idleClient) return;
+
+    const idleClient = this.idleClient;
+    this.idleClient = undefined;
+    await this.closeClient(idleClient);
+  }
+
+  private async closeClient(client: any): Promise<void> {
+    if (typeof client.disconnect === "function") {
+      await client.disconnect();
+    } else if (typeof client.close === "function") {
+      await client.close();
+    }
+  }
+
+  private isChangeEvent(event: string | symbol): boolean {
+    return event === "change" || SUBSYSTEMS.includes(event as MpdSubsystem);
+  }
+
+  private hasChangeListeners(): boolean {
+    return this.eventNames().some((event) => this.isChangeEvent(event));
+  }
+
   /**
    * Execute an MPD command
    */
   private async cmd(command: string, args: string[] = []): Promise<any> {
-    if (!this.connected || !this.client) {
-      throw new Error("Not connected to MPD server");
+    if (!this.connected) {
+      throw this.unavailableError();
+    }
+
+    return this.send(command, args);
+  }
+
+  /**
+   * Error for commands sent while there is no connection
+   */
+  private unavailableError(): MpdConnectionError {
+    return new MpdConnectionError(
+      this.connectionState === "reconnecting"
+        ? "MPD unavailable, retrying"
+        : "Not connected to MPD server",
+    );
+  }
+
+  /**
+   * Send a command on the command connection, also while connecting
+   */
+  private async send(command: string, args: string[] = []): Promise<any> {
+    if (!this.client) {
+      throw this.unavailableError();
     }
 
     try {
-      const result = await this.client.sendCommand(command, args);
+      const result = await Promise.race([
+        this.client.sendCommand(formatCommand(command, args)),
+        this.connectionLost,
+      ]);
       return result;
     } catch (err) {
-      throw err;
+      const error = this.toMpdError(err, command);
+      if (
+        command !== "notcommands" &&
+        error instanceof MpdError &&
+        error.code === MpdErrorCode.Permission
+      ) {
+        throw await this.permissionError(command);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Turn the errors mpd2 rejects with into MpdError
+   */
+  private toMpdError(err: unknown, command: string): unknown {
+    if (err instanceof MpdError || err instanceof MpdConnectionError) {
+      return err;
+    }
+
+    // mpd2 has already parsed the ACK line into errno and friends
+    const { errno, current_command, cmd_list_num } = err as {
+      errno?: number;
+      current_command?: string;
+      cmd_list_num?: number;
+    };
+    if (typeof errno === "number") {
+      return new MpdError(
+        errno,
+        (err as Error).message,
+        current_command ?? command,
+        cmd_list_num ?? 0,
+      );
+    }
+
+    const message = (err as Error)?.message;
+    if (typeof message === "string" && message.startsWith("ACK ")) {
+      return MpdError.parse(message);
+    }
+    return err;
+  }
+
+  /**
+   * Explain a refused command, listing what this connection may not do
+   */
+  private async permissionError(command: string): Promise<MpdError> {
+    let unavailable: string[] = [];
+    try {
+      unavailable = await this.notCommands();
+    } catch (err) {
+      // Only the basic message then
+    }
+
+    let message = `Permission denied for '${command}'`;
+    message += this.password
+      ? " with the configured password."
+      : ". MPD requires a password for it (set MPD_PASSWORD).";
+    if (unavailable.length > 0) {
+      message += ` Commands not available: ${unavailable.join(", ")}`;
     }
+    return new MpdError(MpdErrorCode.Permission, message, command);
   }
 
   /**
@@ -81,9 +470,14 @@ export class MpdClientImpl implements MpdClient {
   }
 
   /**
-   * Parse MPD response to an array of objects
+   * Parse MPD response to an array of objects, starting a new object
+   * whenever one of the separator keys is encountered
    */
-  private parseArrayResponse(data: string): any[] {
+  private parseArrayResponse(
+    data: string,
+    separator: string | string[] = "file",
+  ): any[] {
+    const separators = Array.isArray(separator) ? separator : [separator];
     const lines = data.split("\n");
     const result: Record<string, any>[] = [];
     let current: Record<string, any> = {};
@@ -94,14 +488,23 @@ export class MpdClientImpl implements MpdClient {
         const [, key, value] = matches;
         const lcKey = key.toLowerCase();
 
-        // If we encounter a 'file' key and our current object isn't empty,
-        // push the current object to the result and start a new one
-        if (lcKey === "file" && Object.keys(current).length > 0) {
+        // If we encounter the separator key and our current object isn't
+        // empty, push the current object to the result and start a new one
+        if (separators.includes(lcKey) && Object.keys(current).length > 0) {
           result.push(current);
           current = {};
         }
 
-        current[lcKey] = value;
+        // Repeated tags, like multiple artists of a song, become an array
+        const existing = current[lcKey];
+        const isTag = Object.prototype.hasOwnProperty.call(SONG_TAGS, lcKey);
+        if (existing === undefined || !isTag) {
+          current[lcKey] = value;
+        } else if (Array.isArray(existing)) {
+          existing.push(value);
+        } else {
+          current[lcKey] = [existing, value];
+        }
       }
     }
 
@@ -138,6 +541,20 @@ export class MpdClientImpl implements MpdClient {
     await this.cmd("seek", [songPosition.toString(), timePosition.toString()]);
   }
 
+  /**
+   * Seek within the current song, to a time in seconds or by an offset
+   * from the current position when relative
+   */
+  async seekCur(time: number, relative: boolean = false): Promise<void> {
+    const value =
+      relative && time >= 0 ? `+${time.toString()}` : time.toString();
+    await this.cmd("seekcur", [value]);
+  }
+
+  async seekId(songId: number, timePosition: number): Promise<void> {
+    await this.cmd("seekid", [songId.toString(), timePosition.toString()]);
+  }
+
   // Volume control
   async setVolume(volume: number): Promise<void> {
     const vol = Math.max(0, Math.min(100, Math.floor(volume)));
@@ -161,6 +578,38 @@ export class MpdClientImpl implements MpdClient {
     await this.cmd("consume", [consume ? "1" : "0"]);
   }
 
+  async setCrossfade(seconds: number): Promise<void> {
+    await this.cmd("crossfade", [Math.max(0, Math.round(seconds)).toString()]);
+  }
+
+  /**
+   * Volume threshold in decibels (usually negative) at which songs overlap
+   */
+  async setMixrampDb(decibels: number): Promise<void> {
+    await this.cmd("mixrampdb", [decibels.toString()]);
+  }
+
+  /**
+   * Seconds subtracted from the overlap computed by MixRamp; null or a
+   * negative value disables MixRamp
+   */
+  async setMixrampDelay(seconds: number | null): Promise<void> {
+    await this.cmd("mixrampdelay", [
+      seconds === null || seconds < 0 ? "nan" : seconds.toString(),
+    ]);
+  }
+
+  async setReplayGainMode(mode: MpdReplayGainMode): Promise<void> {
+    await this.cmd("replay_gain_mode", [mode]);
+  }
+
+  async replayGainStatus(): Promise<MpdReplayGainMode> {
+    const response = await this.cmd("replay_gain_status");
+    const parsed = this.parseResponse(response);
+
+    return parsed.replay_gain_mode as MpdReplayGainMode;
+  }
+
   // Current state
   async status(): Promise<MpdStatus> {
     const response = await this.cmd("status");
@@ -175,6 +624,8 @@ export class MpdClientImpl implements MpdClient {
       playlist: parseInt(parsed.playlist, 10),
       playlistlength: parseInt(parsed.playlistlength, 10),
       mixrampdb: parseFloat(parsed.mixrampdb),
+      mixrampdelay: this.parseOptionalFloat(parsed.mixrampdelay),
+      xfade: this.parseOptionalFloat(parsed.xfade),
       state: parsed.state as "play" | "stop" | "pause",
       song: parsed.song !== undefined ? parseInt(parsed.song, 10) : undefined,
       songid:
@@ -187,6 +638,7 @@ export class MpdClientImpl implements MpdClient {
       duration:
         parsed.duration !== undefined ? parseFloat(parsed.duration) : undefined,
       audio: parsed.audio,
+      partition: parsed.partition,
       nextsong:
         parsed.nextsong !== undefined
           ? parseInt(parsed.nextsong, 10)
@@ -195,15 +647,28 @@ export class MpdClientImpl implements MpdClient {
         parsed.nextsongid !== undefined
           ? parseInt(parsed.nextsongid, 10)
           : undefined,
+      updating_db:
+        parsed.updating_db !== undefined
+          ? parseInt(parsed.updating_db, 10)
+          : undefined,
     };
   }
 
+  /**
+   * Parse a number that MPD may leave out or report as "nan"
+   */
+  private parseOptionalFloat(value: string | undefined): number | undefined {
+    const number = value !== undefined ? parseFloat(value) : NaN;
+    return isNaN(number) ? undefined : number;
+  }
+
   async currentSong(): Promise<MpdSong | null> {
     const response = await this.cmd("currentsong");
     if (!response) return null;
 
-    const parsed = this.parseResponse(response);
-    if (Object.keys(parsed).length === 0) return null;
+    // A single song, but its tags may repeat
+    const [parsed] = this.parseArrayResponse(response);
+    if (!parsed) return null;
 
     return this.convertToMpdSong(parsed);
   }
@@ -223,51 +688,712 @@ export class MpdClientImpl implements MpdClient {
     };
   }
 
+  // Database
+  /**
+   * Start a database update of the whole library or a path within it.
+   * Resolves to the update job id.
+   */
+  async update(path?: string): Promise<number> {
+    return this.updateCommand("update", path);
+  }
+
+  /**
+   * Like update, but also rescans files that haven't been modified
+   */
+  async rescan(path?: string): Promise<number> {
+    return this.updateCommand("rescan", path);
+  }
+
+  private async updateCommand(
+    command: "update" | "rescan",
+    path?: string,
+  ): Promise<number> {
+    const response = await this.cmd(command, path ? [path] : []);
+    const parsed = this.parseResponse(response);
+
+    return parseInt(parsed.updating_db, 10);
+  }
+
+  // Audio outputs
+  async outputs(): Promise<MpdOutput[]> {
+    const response = await this.cmd("outputs");
+    const outputs: MpdOutput[] = [];
+    let current: MpdOutput | undefined;
+
+    for (const line of (response || "").split("\n")) {
+      const matches = line.match(/^([^:]+):\s(.*)$/);
+      if (!matches) continue;
+
+      const [, key, value] = matches;
+      switch (key.toLowerCase()) {
+        case "outputid":
+          current = {
+            id: parseInt(value, 10),
+            name: "",
+            enabled: false,
+            attributes: {},
+          };
+          outputs.push(current);
+          break;
+        case "outputname":
+          if (current) current.name = value;
+          break;
+        case "plugin":
+          if (current) current.plugin = value;
+          break;
+        case "outputenabled":
+          if (current) current.enabled = value === "1";
+          break;
+        case "attribute": {
+          // Attributes are reported as "attribute: name=value"
+          const separatorIndex = value.indexOf("=");
+          if (current && separatorIndex > 0) {
+            current.attributes[value.slice(0, separatorIndex)] = value.slice(
+              separatorIndex + 1,
+            );
+          }
+          break;
+        }
+      }
+    }
+
+    return outputs;
+  }
+
+  async enableOutput(id: number): Promise<void> {
+    await this.cmd("enableoutput", [id.toString()]);
+  }
+
+  async disableOutput(id: number): Promise<void> {
+    await this.cmd("disableoutput", [id.toString()]);
+  }
+
+  async toggleOutput(id: number): Promise<void> {
+    await this.cmd("toggleoutput", [id.toString()]);
+  }
+
+  async outputSet(id: number, name: string, value: string): Promise<void> {
+    await this.cmd("outputset", [id.toString(), name, value]);
+  }
+
+  // Partitions
+  async switchPartition(name: string): Promise<void> {
+    await this.cmd("partition", [name]);
+    this.partition = name;
+
+    if (this.idleClient) {
+      await this.idleClient.sendCommand(formatCommand("partition", [name]));
+    }
+  }
+
+  async listPartitions(): Promise<string[]> {
+    const response = await this.cmd("listpartitions");
+    const parsed = this.parseArrayResponse(response, "partition");
+
+    return parsed.map((item) => item.partition);
+  }
+
+  async newPartition(name: string): Promise<void> {
+    await this.cmd("newpartition", [name]);
+  }
+
+  async deletePartition(name: string): Promise<void> {
+    await this.cmd("delpartition", [name]);
+  }
+
+  async moveOutput(outputName: string): Promise<void> {
+    await this.cmd("moveoutput", [outputName]);
+  }
+
+  // Storage
+  /**
+   * Mount storage such as "nfs://server/music" at a path in the music
+   * directory
+   */
+  async mount(path: string, uri: string): Promise<void> {
+    await this.cmd("mount", [path, uri]);
+  }
+
+  async unmount(path: string): Promise<void> {
+    await this.cmd("unmount", [path]);
+  }
+
+  async listMounts(): Promise<MpdMount[]> {
+    const response = await this.cmd("listmounts");
+    const mounts: MpdMount[] = [];
+
+    // The root mount is reported with an empty path ("mount: "), which
+    // parseArrayResponse would skip
+    for (const line of response.split("\n")) {
+      const matches = line.match(/^([^:]+):\s?(.*)$/);
+      if (!matches) continue;
+
+      const key = matches[1].toLowerCase();
+      if (key === "mount") {
+        mounts.push({ mount: matches[2], storage: "" });
+      } else if (key === "storage" && mounts.length > 0) {
+        mounts[mounts.length - 1].storage = matches[2];
+      }
+    }
+
+    return mounts;
+  }
+
+  async listNeighbors(): Promise<MpdNeighbor[]> {
+    const response = await this.cmd("listneighbors");
+    const parsed = this.parseArrayResponse(response, "neighbor");
+
+    return parsed.map((item) => ({
+      uri: item.neighbor,
+      name: item.name || item.neighbor,
+    }));
+  }
+
+  // Permissions
+  /**
+   * Commands this connection is allowed to run
+   */
+  async commands(): Promise<string[]> {
+    const response = await this.cmd("commands");
+    const parsed = this.parseArrayResponse(response, "command");
+
+    return parsed.map((item) => item.command);
+  }
+
+  /**
+   * Commands this connection is not allowed to run
+   */
+  async notCommands(): Promise<string[]> {
+    const response = await this.cmd("notcommands");
+    const parsed = this.parseArrayResponse(response, "command");
+
+    return parsed.map((item) => item.command);
+  }
+
+  // Client-to-client messages
+  /**
+   * Subscribe to a channel. Subscriptions are restored on reconnect; the
+   * idle connection never reads messages, so it isn't subscribed and
+   * received messages are collected with readMessages.
+   */
+  async subscribe(channel: string): Promise<void> {
+    if (this.subscribedChannels.has(channel)) return;
+
+    await this.cmd("subscribe", [channel]);
+    this.subscribedChannels.add(channel);
+  }
+
+  async unsubscribe(channel: string): Promise<void> {
+    if (!this.subscribedChannels.has(channel)) return;
+
+    await this.cmd("unsubscribe", [channel]);
+    this.subscribedChannels.delete(channel);
+  }
+
+  /**
+   * Channels that have at least one subscriber
+   */
+  async channels(): Promise<string[]> {
+    const response = await this.cmd("channels");
+    const parsed = this.parseArrayResponse(response, "channel");
+
+    return parsed.map((item) => item.channel);
+  }
+
+  async sendMessage(channel: string, message: string): Promise<void> {
+    await this.cmd("sendmessage", [channel, message]);
+  }
+
+  /**
+   * Read and remove the messages received on subscribed channels
+   */
+  async readMessages(): Promise<MpdMessage[]> {
+    const response = await this.cmd("readmessages");
+    const parsed = this.parseArrayResponse(response, "channel");
+
+    return parsed.map((item) => ({
+      channel: item.channel,
+      message: item.message ?? "",
+    }));
+  }
+
+  // Command lists
+  /**
+   * Run commands in a single command list exchange and return the response
+   * of each command
+   */
+  async commandList(commands: MpdCommand[]): Promise<string[]> {
+    if (!this.connected) {
+      throw this.unavailableError();
+    }
+    if (commands.length === 0) return [];
+
+    return sendCommandList(this.connectionOptions(), commands);
+  }
+
+  /**
+   * Options for the raw connections used for command lists and binary data
+   */
+  private connectionOptions(): ConnectionOptions {
+    return {
+      ...this.address,
+      password: this.password,
+      partition: this.partition,
+    };
+  }
+
+  /**
+   * Socket options and password for mpd2 connections
+   */
+  private socketOptions(): (
+    { host: string; port: number } | { path: string }
+  ) & { password?: string } {
+    const socket = this.address.path
+      ? { path: this.address.path }
+      : { host: this.address.host, port: this.address.port };
+    return this.password ? { ...socket, password: this.password } : socket;
+  }
+
+  // Album art
+  /**
+   * Read the cover file (cover.jpg, folder.png, ...) from the song's directory
+   */
+  async albumArt(uri: string): Promise<MpdPicture | undefined> {
+    return this.readPictureCommand("albumart", uri);
+  }
+
+  /**
+   * Read the picture embedded in the song file
+   */
+  async readPicture(uri: string): Promise<MpdPicture | undefined> {
+    return this.readPictureCommand("readpicture", uri);
+  }
+
+  private async readPictureCommand(
+    command: "albumart" | "readpicture",
+    uri: string,
+  ): Promise<MpdPicture | undefined> {
+    if (!this.connected) {
+      throw this.unavailableError();
+    }
+
+    const result = await readBinary(this.connectionOptions(), command, uri);
+    if (!result) return undefined;
+
+    return {
+      data: result.data,
+      // Only readpicture reports the type, albumart has to be sniffed
+      mimeType: result.fields.type || detectImageMimeType(result.data),
+    };
+  }
+
+  // Stickers
+  async stickerGet(
+    type: MpdStickerType,
+    uri: string,
+    name: string,
+  ): Promise<string | undefined> {
+    try {
+      const response = await this.cmd("sticker", ["get", type, uri, name]);
+      return this.parseStickers(response)[name];
+    } catch (err) {
+      // MPD reports a missing sticker as an error
+      if (/no such sticker/i.test((err as Error).message)) {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+
+  async stickerSet(
+    type: MpdStickerType,
+    uri: string,
+    name: string,
+    value: string,
+  ): Promise<void> {
+    await this.cmd("sticker", ["set", type, uri, name, value]);
+  }
+
+  async stickerDelete(
+    type: MpdStickerType,
+    uri: string,
+    name?: string,
+  ): Promise<void> {
+    await this.cmd("sticker", ["delete", type, uri, ...(name ? [name] : [])]);
+  }
+
+  async stickerList(
+    type: MpdStickerType,
+    uri: string,
+  ): Promise<Record<string, string>> {
+    const response = await this.cmd("sticker", ["list", type, uri]);
+    return this.parseStickers(response);
+  }
+
+  async stickerFind(
+    type: MpdStickerType,
+    uri: string,
+    name: string,
+    match?: { operator: "=" | "<" | ">"; value: string },
+  ): Promise<MpdStickerMatch[]> {
+    const args = ["find", type, uri, name];
+    if (match) {
+      args.push(match.operator, match.value);
+    }
+
+    const response = await this.cmd("sticker", args);
+    const matches: MpdStickerMatch[] = [];
+    let uriKey = "";
+
+    for (const line of (response || "").split("\n")) {
+      const lineMatch = line.match(/^([^:]+):\s(.*)$/);
+      if (!lineMatch) continue;
+
+      const [, key, value] = lineMatch;
+      if (key.toLowerCase() === "sticker") {
+        const sticker = this.parseSticker(value);
+        if (sticker && uriKey) {
+          matches.push({ uri: uriKey, value: sticker.value });
+        }
+      } else {
+        // The object's URI is reported as "file:" for songs,
+        // "playlist:" for playlists
+        uriKey = value;
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Parse "sticker: name=value" lines into an object
+   */
+  private parseStickers(data: string): Record<string, string> {
+    const stickers: Record<string, string> = {};
+
+    for (const line of (data || "").split("\n")) {
+      const matches = line.match(/^sticker:\s(.*)$/i);
+      const sticker = matches ? this.parseSticker(matches[1]) : undefined;
+      if (sticker) {
+        stickers[sticker.name] = sticker.value;
+      }
+    }
+
+    return stickers;
+  }
+
+  private parseSticker(
+    data: string,
+  ): { name: string; value: string } | undefined {
+    const separatorIndex = data.indexOf("=");
+    if (separatorIndex <= 0) return undefined;
+
+    return {
+      name: data.slice(0, separatorIndex),
+      value: data.slice(separatorIndex + 1),
+    };
+  }
+
   // Playlist management
-  async playlistInfo(): Promise<MpdSong[]> {
-    const response = await this.cmd("playlistinfo");
+  /**
+   * List the queue, or only the songs at the positions in the window
+   */
+  async playlistInfo(window?: MpdRange): Promise<MpdSong[]> {
+    const response = await this.cmd(
+      "playlistinfo",
+      window ? [this.formatRange(window)] : [],
+    );
     const parsed = this.parseArrayResponse(response);
 
     return parsed.map((item) => this.convertToMpdSong(item));
   }
 
+  /**
+   * List the songs that changed in the queue since the given playlist
+   * version, with their current positions
+   */
+  async plChanges(version: number, window?: MpdRange): Promise<MpdSong[]> {
+    const args = [version.toString()];
+    if (window) args.push(this.formatRange(window));
+
+    const response = await this.cmd("plchanges", args);
+    const parsed = this.parseArrayResponse(response);
+
+    return parsed.map((item) => this.convertToMpdSong(item));
+  }
+
+  /**
+   * Like plChanges, but only the positions and ids of the changed songs
+   */
+  async plChangesPosId(
+    version: number,
+    window?: MpdRange,
+  ): Promise<MpdQueuePosition[]> {
+    const args = [version.toString()];
+    if (window) args.push(this.formatRange(window));
+
+    const response = await this.cmd("plchangesposid", args);
+    const parsed = this.parseArrayResponse(response, "cpos");
+
+    return parsed.map((item) => ({
+      pos: parseInt(item.cpos, 10),
+      id: parseInt(item.id, 10),
+    }));
+  }
+
   async playlistAdd(uri: string): Promise<void> {
-    // MPD protocol expects a single string for the add command
-    // Try both approaches to ensure compatibility
-    try {
-      // First try the array approach
-      await this.cmd("add", [uri]);
-    } catch (error) {
-      console.error(`Error with array approach: ${error}`);
-      try {
-        // Fall back to direct string command if array approach fails
-        await this.client.sendCommand(`add "${uri.replace(/"/g, '\\"')}"`);
-      } catch (fallbackError) {
-        console.error(`Error with fallback approach: ${fallbackError}`);
-        throw error; // Throw the original error if both methods fail
-      }
+    await this.cmd("add", [uri]);
+  }
+
+  /**
+   * Add songs in one command list, keeping their order. Resolves to the new
+   * song ids. MPD stops at the first song it can't add; the songs before it
+   * stay queued and the rejected MpdError's index is their count.
+   */
+  async playlistAddAll(
+    uris: string[],
+    position?: number | string,
+  ): Promise<number[]> {
+    const commands = uris.map((uri, index) => ({
+      command: "addid",
+      args:
+        position !== undefined
+          ? [uri, this.offsetPosition(position, index)]
+          : [uri],
+    }));
+    const responses = await this.commandList(commands);
+
+    return responses.map((response) =>
+      parseInt(this.parseResponse(response).id, 10),
+    );
+  }
+
+  /**
+   * Position of the nth song of a batch inserted at position. Songs added
+   * "-N" before the current song stay in order on their own, as the current
+   * song moves down with every insert.
+   */
+  private offsetPosition(position: number | string, index: number): string {
+    if (typeof position === "number" || /^\d+$/.test(position)) {
+      return (Number(position) + index).toString();
     }
+
+    const relative = position.match(/^\+(\d+)$/);
+    return relative ? `+${parseInt(relative[1], 10) + index}` : position;
+  }
+
+  async playlistAddId(
+    uri: string,
+    position?: number | string,
+  ): Promise<number> {
+    const args = position !== undefined ? [uri, position.toString()] : [uri];
+    const response = await this.cmd("addid", args);
+    const parsed = this.parseResponse(response);
+
+    return parseInt(parsed.id, 10);
+  }
+
+  async playlistDelete(position: number | MpdRange): Promise<void> {
+    await this.cmd("delete", [this.formatRange(position)]);
   }
 
-  async playlistDelete(position: number): Promise<void> {
-    await this.cmd("delete", [position.toString()]);
+  async playlistDeleteId(id: number): Promise<void> {
+    await this.cmd("deleteid", [id.toString()]);
   }
 
   async playlistClear(): Promise<void> {
     await this.cmd("clear");
   }
 
+  async playlistMove(from: number | MpdRange, to: number): Promise<void> {
+    await this.cmd("move", [this.formatRange(from), to.toString()]);
+  }
+
+  async playlistMoveId(id: number, to: number): Promise<void> {
+    await this.cmd("moveid", [id.toString(), to.toString()]);
+  }
+
+  async playlistSwap(position1: number, position2: number): Promise<void> {
+    await this.cmd("swap", [position1.toString(), position2.toString()]);
+  }
+
+  async playlistSwapId(id1: number, id2: number): Promise<void> {
+    await this.cmd("swapid", [id1.toString(), id2.toString()]);
+  }
+
+  async playlistShuffle(range?: MpdRange): Promise<void> {
+    await this.cmd("shuffle", range ? [this.formatRange(range)] : []);
+  }
+
+  async playId(id?: number): Promise<void> {
+    await this.cmd("playid", id !== undefined ? [id.toString()] : []);
+  }
+
+  async setPriority(priority: number, ranges: MpdRange[]): Promise<void> {
+    await this.cmd("prio", [
+      this.clampPriority(priority).toString(),
+      ...ranges.map((range) => this.formatRange(range)),
+    ]);
+  }
+
+  async setPriorityId(priority: number, ids: number[]): Promise<void> {
+    await this.cmd("prioid", [
+      this.clampPriority(priority).toString(),
+      ...ids.map((id) => id.toString()),
+    ]);
+  }
+
+  /**
+   * Format a queue position or range as MPD's START:END syntax
+   */
+  private formatRange(range: number | MpdRange): string {
+    if (typeof range === "number") {
+      return range.toString();
+    }
+
+    const [start, end] = range;
+    return end !== undefined ? `${start}:${end}` : `${start}:`;
+  }
+
+  /**
+   * MPD priorities range from 0 (default) to 255 (highest)
+   */
+  private clampPriority(priority: number): number {
+    return Math.max(0, Math.min(255, Math.floor(priority)));
+  }
+
   // Database
   async listAllInfo(path: string = ""): Promise<MpdSong[]> {
     const response = await this.cmd("listallinfo", path ? [path] : []);
-    const parsed = this.parseArrayResponse(response);
+    const parsed = this.parseArrayResponse(response, [
+      "directory",
+      "file",
+      "playlist",
+    ]);
 
     return parsed
       .filter((item) => item.file) // Only return items that have a file attribute
       .map((item) => this.convertToMpdSong(item));
   }
 
-  async search(type: string, query: string): Promise<MpdSong[]> {
+  /**
+   * List one directory of the database: subdirectories, songs with their
+   * tags and playlist files. Given a song file, lists only that song.
+   */
+  async lsInfo(path: string = ""): Promise<MpdDirectoryEntry[]> {
+    const response = await this.cmd("lsinfo", path ? [path] : []);
+    return this.parseDirectoryEntries(response, true);
+  }
+
+  /**
+   * List one directory of the music folder itself, including files that
+   * aren't songs like cover images
+   */
+  async listFiles(path: string = ""): Promise<MpdDirectoryEntry[]> {
+    const response = await this.cmd("listfiles", path ? [path] : []);
+    return this.parseDirectoryEntries(response, false);
+  }
+
+  /**
+   * Everything the database knows about one song file, or null when it
+   * isn't a song in the database
+   */
+  async songInfo(uri: string): Promise<MpdSong | null> {
+    const entries = await this.lsInfo(uri);
+    const entry = entries.find(
+      (item) => item.type === "file" && item.path === uri,
+    );
+
+    return entry?.type === "file" && entry.song ? entry.song : null;
+  }
+
+  /**
+   * Read the comments (raw tags) stored in a song file, with their names as
+   * they are in the file. Comments that occur more than once are arrays.
+   */
+  async readComments(uri: string): Promise<Record<string, MpdTag>> {
+    const response = await this.cmd("readcomments", [uri]);
+    const comments: Record<string, MpdTag> = {};
+
+    for (const line of response.split("\n")) {
+      const separatorIndex = line.indexOf(": ");
+      if (separatorIndex < 0) continue;
+
+      const name = line.slice(0, separatorIndex);
+      const value = line.slice(separatorIndex + 2);
+      const existing = comments[name];
+      if (existing === undefined) {
+        comments[name] = value;
+      } else if (Array.isArray(existing)) {
+        existing.push(value);
+      } else {
+        comments[name] = [existing, value];
+      }
+    }
+
+    return comments;
+  }
+
+  /**
+   * Calculate the Chromaprint fingerprint of a song; needs MPD built with
+   * Chromaprint and decodes the song, so it takes a moment
+   */
+  async getFingerprint(uri: string): Promise<string> {
+    const response = await this.cmd("getfingerprint", [uri]);
+    const parsed = this.parseResponse(response);
+
+    return parsed.chromaprint;
+  }
+
+  private parseDirectoryEntries(
+    data: string,
+    withTags: boolean,
+  ): MpdDirectoryEntry[] {
+    const parsed = this.parseArrayResponse(data, [
+      "directory",
+      "file",
+      "playlist",
+    ]);
+
+    return parsed.map((item): MpdDirectoryEntry => {
+      const lastModified = item["last-modified"];
+
+      if (item.directory !== undefined) {
+        return { type: "directory", path: item.directory, lastModified };
+      }
+      if (item.playlist !== undefined) {
+        return { type: "playlist", path: item.playlist, lastModified };
+      }
+      return {
+        type: "file",
+        path: item.file,
+        lastModified,
+        size: item.size !== undefined ? parseInt(item.size, 10) : undefined,
+        song: withTags ? this.convertToMpdSong(item) : undefined,
+      };
+    });
+  }
+
+  async search(type: string, query: string): Promise<MpdSong[]>;
+  async search(
+    filter: MpdFilter,
+    options?: MpdQueryOptions,
+  ): Promise<MpdSong[]>;
+  async search(
+    typeOrFilter: string | MpdFilter,
+    queryOrOptions?: string | MpdQueryOptions,
+  ): Promise<MpdSong[]> {
+    if (typeof typeOrFilter !== "string") {
+      return this.query(
+        "search",
+        typeOrFilter,
+        queryOrOptions as MpdQueryOptions | undefined,
+      );
+    }
+
+    const type = typeOrFilter;
+    const query = String(queryOrOptions);
+
     // Debug the search parameters
     console.error(`Searching for ${type}: "${query}"`);
 
@@ -277,12 +1403,22 @@ export class MpdClientImpl implements MpdClient {
 
     // Try a series of search approaches to maximize chances of finding results
     try {
-      // First try: standard string command approach
-      const command = `search "${type}" "${processedQuery.replace(/"/g, '\\"')}"`;
-      console.error(`Search command: ${command}`);
-      const response = await this.client.sendCommand(command);
-      const parsed = this.parseArrayResponse(response);
-      const results = parsed.map((item) => this.convertToMpdSong(item));
+      // First try: filter expression
+      let results: MpdSong[];
+      try {
+        results = await this.query("search", contains(type, processedQuery));
+      } catch (error) {
+        // MPD before 0.21 rejects filter expressions as incorrect arguments,
+        // but still searches tag/value pairs
+        if (!(error instanceof MpdError) || error.code !== MpdErrorCode.Arg) {
+          throw error;
+        }
+        console.error(`Trying tag/value search`);
+        const response = await this.cmd("search", [type, processedQuery]);
+        return this.parseArrayResponse(response).map((item) =>
+          this.convertToMpdSong(item),
+        );
+      }
 
       if (results.length > 0) {
         return results;
@@ -294,11 +1430,9 @@ export class MpdClientImpl implements MpdClient {
         console.error(
           `No results, trying simplified title: "${simplifiedQuery}"`,
         );
-        const fallbackCommand = `search "${type}" "${simplifiedQuery.replace(/"/g, '\\"')}"`;
-        const fallbackResponse = await this.client.sendCommand(fallbackCommand);
-        const fallbackParsed = this.parseArrayResponse(fallbackResponse);
-        const fallbackResults = fallbackParsed.map((item) =>
-          this.convertToMpdSong(item),
+        const fallbackResults = await this.query(
+          "search",
+          contains(type, simplifiedQuery),
         );
 
         if (fallbackResults.length > 0) {
@@ -306,11 +1440,7 @@ export class MpdClientImpl implements MpdClient {
         }
       }
 
-      // Third try: array approach as fallback
-      console.error(`Trying array approach`);
-      const arrayResponse = await this.cmd("search", [type, processedQuery]);
-      const arrayParsed = this.parseArrayResponse(arrayResponse);
-      return arrayParsed.map((item) => this.convertToMpdSong(item));
+      return results;
     } catch (error) {
       console.error(`MPD search error:`, error);
 
@@ -345,16 +1475,152 @@ export class MpdClientImpl implements MpdClient {
     return query;
   }
 
-  async find(type: string, query: string): Promise<MpdSong[]> {
-    const response = await this.cmd("find", [type, query]);
+  async find(type: string, query: string): Promise<MpdSong[]>;
+  async find(filter: MpdFilter, options?: MpdQueryOptions): Promise<MpdSong[]>;
+  async find(
+    typeOrFilter: string | MpdFilter,
+    queryOrOptions?: string | MpdQueryOptions,
+  ): Promise<MpdSong[]> {
+    if (typeof typeOrFilter !== "string") {
+      return this.query(
+        "find",
+        typeOrFilter,
+        queryOrOptions as MpdQueryOptions | undefined,
+      );
+    }
+
+    const response = await this.cmd("find", [
+      typeOrFilter,
+      String(queryOrOptions),
+    ]);
     const parsed = this.parseArrayResponse(response);
 
     return parsed.map((item) => this.convertToMpdSong(item));
   }
 
+  /**
+   * Run find or search with a filter expression
+   */
+  private async query(
+    command: "find" | "search",
+    filter: MpdFilter,
+    options: MpdQueryOptions = {},
+  ): Promise<MpdSong[]> {
+    const args = [toFilterExpression(filter)];
+    if (options.sort) {
+      args.push("sort", options.sort);
+    }
+    if (options.window) {
+      args.push("window", this.formatRange(options.window));
+    }
+
+    const response = await this.cmd(command, args);
+    const parsed = this.parseArrayResponse(response);
+
+    return parsed.map((item) => this.convertToMpdSong(item));
+  }
+
+  /**
+   * Look up many song files in one command list, in the order given. Files
+   * that aren't songs in the database are null.
+   */
+  async songInfoAll(uris: string[]): Promise<(MpdSong | null)[]> {
+    // find, unlike lsinfo, doesn't fail the whole list on a missing file
+    const responses = await this.commandList(
+      uris.map((uri) => ({
+        command: "find",
+        args: [toFilterExpression(eq("file", uri))],
+      })),
+    );
+
+    return responses.map((response) => {
+      const [item] = this.parseArrayResponse(response);
+      return item ? this.convertToMpdSong(item) : null;
+    });
+  }
+
+  /**
+   * List the distinct values of a tag, optionally grouped by other tags.
+   * MPD sends each group value before the values belonging to it.
+   */
+  async list(
+    tag: string,
+    filter?: MpdFilter,
+    groupBy: string | string[] = [],
+  ): Promise<MpdTagValue[]> {
+    const groups = (Array.isArray(groupBy) ? groupBy : [groupBy]).map((group) =>
+      group.toLowerCase(),
+    );
+    const args = [tag];
+    if (filter) {
+      args.push(toFilterExpression(filter));
+    }
+    for (const group of groups) {
+      args.push("group", group);
+    }
+
+    const response = await this.cmd("list", args);
+    const result: MpdTagValue[] = [];
+    const current: Record<string, string> = {};
+
+    for (const line of response.split("\n")) {
+      const matches = line.match(/^([^:]+):\s(.*)$/);
+      if (!matches) continue;
+
+      const key = matches[1].toLowerCase();
+      if (groups.includes(key)) {
+        current[key] = matches[2];
+      } else if (key === tag.toLowerCase()) {
+        result.push({ value: matches[2], groups: { ...current } });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Count songs and their total playtime (seconds), optionally per tag value
+   */
+  async count(filter?: MpdFilter, groupBy?: string): Promise<MpdCount[]> {
+    const group = groupBy?.toLowerCase();
+    const args: string[] = [];
+    if (filter) {
+      args.push(toFilterExpression(filter));
+    }
+    if (group) {
+      args.push("group", group);
+    }
+
+    const response = await this.cmd("count", args);
+    const result: MpdCount[] = [];
+    let current: MpdCount | undefined;
+
+    for (const line of response.split("\n")) {
+      const matches = line.match(/^([^:]+):\s(.*)$/);
+      if (!matches) continue;
+
+      const key = matches[1].toLowerCase();
+      if (key === group || !current) {
+        current = { songs: 0, playtime: 0 };
+        if (key === group) {
+          current.group = matches[2];
+        }
+        result.push(current);
+      }
+
+      if (key === "songs") {
+        current.songs = parseInt(matches[2], 10);
+      } else if (key === "playtime") {
+        current.playtime = parseInt(matches[2], 10);
+      }
+    }
+
+    return result;
+  }
+
   async listPlaylists(): Promise<{ playlist: string; lastModified: string }[]> {
     const response = await this.cmd("listplaylists");
-    const parsed = this.parseArrayResponse(response);
+    const parsed = this.parseArrayResponse(response, "playlist");
 
     return parsed.map((item) => ({
       playlist: item.playlist,
@@ -362,18 +1628,69 @@ export class MpdClientImpl implements MpdClient {
     }));
   }
 
+  // Stored playlists
+  async listPlaylistInfo(name: string): Promise<MpdSong[]> {
+    const response = await this.cmd("listplaylistinfo", [name]);
+    const parsed = this.parseArrayResponse(response);
+
+    return parsed.map((item) => this.convertToMpdSong(item));
+  }
+
+  async loadPlaylist(name: string): Promise<void> {
+    await this.cmd("load", [name]);
+  }
+
+  async savePlaylist(name: string): Promise<void> {
+    await this.cmd("save", [name]);
+  }
+
+  async removePlaylist(name: string): Promise<void> {
+    await this.cmd("rm", [name]);
+  }
+
+  async renamePlaylist(name: string, newName: string): Promise<void> {
+    await this.cmd("rename", [name, newName]);
+  }
+
+  async storedPlaylistAdd(name: string, uri: string): Promise<void> {
+    await this.cmd("playlistadd", [name, uri]);
+  }
+
+  async storedPlaylistDelete(name: string, position: number): Promise<void> {
+    await this.cmd("playlistdelete", [name, position.toString()]);
+  }
+
+  async storedPlaylistMove(
+    name: string,
+    from: number,
+    to: number,
+  ): Promise<void> {
+    await this.cmd("playlistmove", [name, from.toString(), to.toString()]);
+  }
+
+  async storedPlaylistClear(name: string): Promise<void> {
+    await this.cmd("playlistclear", [name]);
+  }
+
   private convertToMpdSong(data: Record<string, any>): MpdSong {
-    return {
+    const song: MpdSong = {
       file: data.file,
-      artist: data.artist,
-      album: data.album,
-      title: data.title,
-      track: data.track,
       duration:
         data.duration !== undefined ? parseFloat(data.duration) : undefined,
       pos: data.pos !== undefined ? parseInt(data.pos, 10) : undefined,
       id: data.id !== undefined ? parseInt(data.id, 10) : undefined,
       time: data.time,
+      format: data.format,
+      lastModified: data["last-modified"],
+      added: data.added,
     };
+
+    for (const [key, field] of Object.entries(SONG_TAGS)) {
+      if (data[key] !== undefined) {
+        song[field] = data[key];
+      }
+    }
+
+    return song;
   }
 }
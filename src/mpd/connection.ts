@@ -0,0 +1,321 @@
+import net from "net";
+import { MpdConnectionError, MpdError, MpdErrorCode } from "./errors";
+import { MpdAddress, MpdCommand } from "./types";
+
+/**
+ * Short-lived raw protocol connections for responses mpd2 can't handle.
+ *
+ * mpd2 decodes everything it receives as UTF-8, which corrupts binary
+ * payloads (albumart, readpicture), and it resolves a command at the first
+ * list_OK, which breaks command lists with per-command results.
+ */
+
+export interface ConnectionOptions extends MpdAddress {
+  // Partition to switch to before running commands
+  partition?: string;
+  // Milliseconds without any data from MPD before giving up
+  timeout?: number;
+}
+
+export interface BinaryResponse {
+  fields: Record<string, string>;
+  data: Buffer;
+}
+
+// Chunk size requested with binarylimit; MPD defaults to 8 KiB
+const BINARY_LIMIT = 1024 * 1024;
+
+// Time to wait for data from MPD before the connection is given up
+const DEFAULT_TIMEOUT = 30 * 1000;
+
+/**
+ * Quote an argument for the MPD protocol
+ */
+export function escapeArg(arg: string): string {
+  return `"${arg.replace(/[\\"]/g, "\\$&")}"`;
+}
+
+/**
+ * Guess an image MIME type from its magic bytes
+ */
+export function detectImageMimeType(data: Buffer): string {
+  if (data.subarray(0, 8).equals(Buffer.from("89504e470d0a1a0a", "hex"))) {
+    return "image/png";
+  }
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (data.subarray(0, 4).toString("latin1") === "GIF8") {
+    return "image/gif";
+  }
+  if (
+    data.subarray(0, 4).toString("latin1") === "RIFF" &&
+    data.subarray(8, 12).toString("latin1") === "WEBP"
+  ) {
+    return "image/webp";
+  }
+  if (data.subarray(0, 2).toString("latin1") === "BM") {
+    return "image/bmp";
+  }
+  return "application/octet-stream";
+}
+
+/**
+ * Format a command line with quoted arguments. mpd2's own Command doesn't
+ * escape backslashes, which filter expressions rely on.
+ */
+export function formatCommand(name: string, args: string[] = []): string {
+  return [name, ...args.map((arg) => escapeArg(arg))].join(" ");
+}
+
+class RawConnection {
+  private socket: net.Socket;
+  private buffer: Buffer = Buffer.alloc(0);
+  private waiting?: () => void;
+  private error?: Error;
+
+  constructor(options: ConnectionOptions) {
+    this.socket = options.path
+      ? net.connect({ path: options.path })
+      : net.connect({ host: options.host, port: options.port });
+    this.socket.on("data", (chunk: Buffer) => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      this.wake();
+    });
+    this.socket.on("error", (err) => {
+      this.error = err;
+      this.wake();
+    });
+    this.socket.on("close", () => {
+      this.error =
+        this.error || new MpdConnectionError("Connection to MPD closed");
+      this.wake();
+    });
+
+    const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    this.socket.setTimeout(timeout, () => {
+      this.error = new MpdConnectionError(
+        `MPD did not respond within ${timeout} ms`,
+      );
+      this.socket.destroy();
+      this.wake();
+    });
+  }
+
+  /**
+   * Wait for the "OK MPD x.y.z" greeting
+   */
+  async open(): Promise<void> {
+    const line = await this.readLine();
+    if (!line.startsWith("OK MPD ")) {
+      throw new Error(`Unexpected MPD greeting: ${line}`);
+    }
+  }
+
+  /**
+   * Send a command and read its response up to the final OK.
+   * Throws on ACK responses.
+   */
+  async command(name: string, args: string[] = []): Promise<BinaryResponse> {
+    this.socket.write(formatCommand(name, args) + "\n");
+
+    const fields: Record<string, string> = {};
+    let data: Buffer = Buffer.alloc(0);
+
+    for (;;) {
+      const line = await this.readLine();
+      if (line === "OK") {
+        return { fields, data };
+      }
+      if (line.startsWith("ACK ")) {
+        throw MpdError.parse(line);
+      }
+
+      const separatorIndex = line.indexOf(": ");
+      if (separatorIndex < 0) continue;
+
+      const key = line.slice(0, separatorIndex).toLowerCase();
+      const value = line.slice(separatorIndex + 2);
+      if (key === "binary") {
+        // The payload is followed by a newline
+        const length = parseInt(value, 10);
+        data = await this.readBytes(length);
+        await this.readBytes(1);
+      } else {
+        fields[key] = value;
+      }
+    }
+  }
+
+  /**
+   * Send commands as one command_list_ok_begin list and return the
+   * response of each command. Throws on the first ACK; MPD has executed the
+   * commands before the failing one.
+   */
+  async commandList(commands: MpdCommand[]): Promise<string[]> {
+    this.socket.write(
+      [
+        "command_list_ok_begin",
+        ...commands.map((item) => formatCommand(item.command, item.args)),
+        "command_list_end",
+      ].join("\n") + "\n",
+    );
+
+    const results: string[] = [];
+    let lines: string[] = [];
+
+    for (;;) {
+      const line = await this.readLine();
+      if (line === "OK") {
+        return results;
+      }
+      if (line.startsWith("ACK ")) {
+        throw MpdError.parse(line);
+      }
+
+      if (line === "list_OK") {
+        results.push(lines.join("\n"));
+        lines = [];
+      } else {
+        lines.push(line);
+      }
+    }
+  }
+
+  close(): void {
+    this.socket.end();
+    this.socket.destroy();
+  }
+
+  private async readLine(): Promise<string> {
+    for (;;) {
+      const end = this.buffer.indexOf(0x0a);
+      if (end >= 0) {
+        const line = this.buffer.subarray(0, end).toString("utf8");
+        this.buffer = this.buffer.subarray(end + 1);
+        return line;
+      }
+      await this.waitForData();
+    }
+  }
+
+  private async readBytes(length: number): Promise<Buffer> {
+    while (this.buffer.length < length) {
+      await this.waitForData();
+    }
+    const bytes = this.buffer.subarray(0, length);
+    this.buffer = this.buffer.subarray(length);
+    return bytes;
+  }
+
+  private waitForData(): Promise<void> {
+    if (this.error) {
+      return Promise.reject(this.error);
+    }
+    return new Promise((resolve) => {
+      this.waiting = resolve;
+    });
+  }
+
+  private wake(): void {
+    const waiting = this.waiting;
+    this.waiting = undefined;
+    if (waiting) waiting();
+  }
+}
+
+/**
+ * Open a connection and switch to the requested partition
+ */
+async function openConnection(
+  options: ConnectionOptions,
+): Promise<RawConnection> {
+  const connection = new RawConnection(options);
+
+  try {
+    await connection.open();
+    if (options.password) {
+      await connection.command("password", [options.password]);
+    }
+    if (options.partition) {
+      await connection.command("partition", [options.partition]);
+    }
+  } catch (err) {
+    connection.close();
+    throw err;
+  }
+
+  return connection;
+}
+
+/**
+ * Run a list of commands in a single exchange, returning the response of
+ * each command in order
+ */
+export async function sendCommandList(
+  options: ConnectionOptions,
+  commands: MpdCommand[],
+): Promise<string[]> {
+  const connection = await openConnection(options);
+
+  try {
+    return await connection.commandList(commands);
+  } finally {
+    connection.close();
+  }
+}
+
+/**
+ * Read a complete binary object with a chunked command such as albumart or
+ * readpicture. Resolves to undefined when MPD has no data for the URI.
+ */
+export async function readBinary(
+  options: ConnectionOptions,
+  command: "albumart" | "readpicture",
+  uri: string,
+): Promise<{ data: Buffer; fields: Record<string, string> } | undefined> {
+  const connection = await openConnection(options);
+
+  try {
+    // Bigger chunks mean fewer round trips; older servers don't support it
+    try {
+      await connection.command("binarylimit", [BINARY_LIMIT.toString()]);
+    } catch (err) {
+      // Keep MPD's default chunk size
+    }
+
+    const chunks: Buffer[] = [];
+    let fields: Record<string, string> = {};
+    let offset = 0;
+    let size = 0;
+
+    do {
+      let response: BinaryResponse;
+      try {
+        response = await connection.command(command, [uri, offset.toString()]);
+      } catch (err) {
+        // No cover file or embedded picture for this song
+        if (err instanceof MpdError && err.code === MpdErrorCode.NoExist) {
+          return undefined;
+        }
+        throw err;
+      }
+
+      // readpicture answers with an empty response when there is no picture
+      if (response.fields.size === undefined) {
+        return undefined;
+      }
+
+      fields = { ...fields, ...response.fields };
+      size = parseInt(response.fields.size, 10);
+      if (response.data.length === 0) break;
+
+      chunks.push(response.data);
+      offset += response.data.length;
+    } while (offset < size);
+
+    return { data: Buffer.concat(chunks), fields };
+  } finally {
+    connection.close();
+  }
+}
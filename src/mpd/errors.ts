@@ -0,0 +1,66 @@
+/**
+ * Error codes of MPD's ACK responses
+ */
+export enum MpdErrorCode {
+  NotList = 1,
+  Arg = 2,
+  Password = 3,
+  Permission = 4,
+  Unknown = 5,
+  NoExist = 50,
+  PlaylistMax = 51,
+  System = 52,
+  PlaylistLoad = 53,
+  UpdateAlready = 54,
+  PlayerSync = 55,
+  Exist = 56,
+}
+
+/**
+ * A command failed with an ACK response:
+ *
+ *   ACK [code@index] {command} message
+ *
+ * where index is the position of the failing command in a command list
+ */
+export class MpdError extends Error {
+  constructor(
+    readonly code: MpdErrorCode,
+    message: string,
+    readonly command: string = "",
+    readonly index: number = 0,
+  ) {
+    super(message);
+    this.name = "MpdError";
+  }
+
+  /**
+   * Parse an ACK line; lines in another format keep the whole line as the
+   * message with the Unknown code
+   */
+  static parse(line: string): MpdError {
+    const matches = line.match(/^ACK \[(\d+)@(\d+)\] \{([^}]*)\}\s?(.*)$/);
+    if (!matches) {
+      return new MpdError(MpdErrorCode.Unknown, line);
+    }
+
+    const [, code, index, command, message] = matches;
+    return new MpdError(
+      parseInt(code, 10),
+      message,
+      command,
+      parseInt(index, 10),
+    );
+  }
+}
+
+/**
+ * There is no usable connection to MPD: it was never opened, closed while
+ * a command was running or is being re-established
+ */
+export class MpdConnectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MpdConnectionError";
+  }
+}
@@ -0,0 +1,111 @@
+import { MpdFilter, MpdFilterOperator } from "./types";
+
+/**
+ * Builders for MPD 0.21+ filter expressions used by find, search, list,
+ * count and friends.
+ *
+ * @example
+ * and(eq("artist", "Deftones"), not(contains("album", "live")))
+ * // => "((artist == 'Deftones') AND (!(album contains 'live')))"
+ */
+
+export function tag(
+  name: string,
+  operator: MpdFilterOperator,
+  value: string,
+): MpdFilter {
+  return { type: "tag", tag: name, operator, value };
+}
+
+export function eq(name: string, value: string): MpdFilter {
+  return tag(name, "==", value);
+}
+
+export function ne(name: string, value: string): MpdFilter {
+  return tag(name, "!=", value);
+}
+
+export function contains(name: string, value: string): MpdFilter {
+  return tag(name, "contains", value);
+}
+
+export function startsWith(name: string, value: string): MpdFilter {
+  return tag(name, "starts_with", value);
+}
+
+/**
+ * Match a tag against a Perl-compatible regular expression
+ */
+export function matches(name: string, pattern: string): MpdFilter {
+  return tag(name, "=~", pattern);
+}
+
+export function not(filter: MpdFilter): MpdFilter {
+  return { type: "not", filter };
+}
+
+export function and(...filters: MpdFilter[]): MpdFilter {
+  if (filters.length === 0) {
+    throw new Error("AND filter needs at least one expression");
+  }
+  return filters.length === 1 ? filters[0] : { type: "and", filters };
+}
+
+/**
+ * Restrict the search to songs in a directory (relative to the music root)
+ */
+export function base(path: string): MpdFilter {
+  return { type: "base", path };
+}
+
+/**
+ * Match songs modified after a point in time
+ */
+export function modifiedSince(since: Date | string): MpdFilter {
+  return { type: "modified-since", since };
+}
+
+/**
+ * Match the audio format, either exactly ("44100:16:2") or with a mask
+ * where "*" matches any value ("*:24:*")
+ */
+export function audioFormat(format: string): MpdFilter {
+  return {
+    type: "audio-format",
+    operator: format.includes("*") ? "=~" : "==",
+    format,
+  };
+}
+
+/**
+ * Quote a value for use in a filter expression
+ */
+export function quoteFilterValue(value: string): string {
+  return `'${value.replace(/[\\'"]/g, "\\$&")}'`;
+}
+
+/**
+ * Serialize a filter into MPD's filter expression syntax
+ */
+export function toFilterExpression(filter: MpdFilter): string {
+  switch (filter.type) {
+    case "tag":
+      return `(${filter.tag} ${filter.operator} ${quoteFilterValue(filter.value)})`;
+    case "not":
+      return `(!${toFilterExpression(filter.filter)})`;
+    case "and":
+      return `(${filter.filters.map(toFilterExpression).join(" AND ")})`;
+    case "base":
+      return `(base ${quoteFilterValue(filter.path)})`;
+    case "modified-since": {
+      // MPD accepts ISO 8601 or a UNIX timestamp
+      const since =
+        filter.since instanceof Date
+          ? Math.floor(filter.since.getTime() / 1000).toString()
+          : filter.since;
+      return `(modified-since ${quoteFilterValue(since)})`;
+    }
+    case "audio-format":
+      return `(AudioFormat ${filter.operator} ${quoteFilterValue(filter.format)})`;
+  }
+}
@@ -0,0 +1,145 @@
+import { MpdClient, MpdQueueDiff, MpdSong } from "./types";
+
+// Attempts at reading a consistent set of changes before giving up and
+// applying what was read
+const MAX_SYNC_ATTEMPTS = 3;
+
+/**
+ * A copy of the queue that is kept up to date with plchanges.
+ *
+ * MPD increments the playlist version in its status with every change of
+ * the queue. Only the songs that changed since the version the mirror has
+ * are transferred, and the queue is cut to its new length.
+ */
+export class MpdQueueMirror {
+  private queue: MpdSong[] = [];
+  private queueVersion?: number;
+
+  constructor(private readonly client: MpdClient) {}
+
+  /**
+   * Songs of the queue as of the last sync
+   */
+  get songs(): readonly MpdSong[] {
+    return this.queue;
+  }
+
+  /**
+   * Playlist version of the last sync; undefined before the first
+   */
+  get version(): number | undefined {
+    return this.queueVersion;
+  }
+
+  /**
+   * Bring the mirror up to date and return what changed since the last sync
+   */
+  async sync(): Promise<MpdQueueDiff> {
+    const before = this.queue;
+    const fromVersion = this.queueVersion;
+
+    for (let attempt = 1; ; attempt++) {
+      const status = await this.client.status();
+      if (status.playlist === this.queueVersion) break;
+
+      const changes =
+        this.queueVersion === undefined
+          ? await this.client.playlistInfo()
+          : await this.client.plChanges(this.queueVersion);
+
+      // Another change in between would mix two versions
+      const after = await this.client.status();
+      if (after.playlist !== status.playlist && attempt < MAX_SYNC_ATTEMPTS) {
+        continue;
+      }
+
+      this.queue = applyChanges(this.queue, changes, status.playlistlength);
+      this.queueVersion = status.playlist;
+      break;
+    }
+
+    return {
+      ...diffQueues(before, this.queue),
+      fromVersion,
+      toVersion: this.queueVersion as number,
+    };
+  }
+}
+
+/**
+ * Apply the songs reported by plchanges to a queue that has a new length
+ */
+export function applyChanges(
+  queue: readonly MpdSong[],
+  changes: MpdSong[],
+  length: number,
+): MpdSong[] {
+  const result = queue.slice(0, length);
+
+  for (const song of changes) {
+    if (song.pos !== undefined && song.pos < length) {
+      result[song.pos] = song;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Compare two versions of the queue by song id. Songs only count as moved
+ * when their order changed, not when they shifted because songs before them
+ * were added or removed.
+ */
+export function diffQueues(
+  before: readonly MpdSong[],
+  after: readonly MpdSong[],
+): Pick<MpdQueueDiff, "added" | "removed" | "moved"> {
+  const previous = new Map<number | undefined, number>();
+  before.forEach((song, index) => previous.set(song.id, index));
+  const current = new Set(after.map((song) => song.id));
+
+  const added = after.filter((song) => !previous.has(song.id));
+  const removed = before.filter((song) => !current.has(song.id));
+
+  // The songs in both versions that keep their relative order are the
+  // longest increasing run of their old positions; the others moved
+  const kept = after
+    .map((song, to) => ({ song, from: previous.get(song.id) as number, to }))
+    .filter(({ song }) => previous.has(song.id));
+  const inOrder = longestIncreasing(kept.map(({ from }) => from));
+  const moved = kept.filter((_change, index) => !inOrder.has(index));
+
+  return { added, removed, moved };
+}
+
+/**
+ * Indexes of a longest strictly increasing subsequence
+ */
+function longestIncreasing(values: number[]): Set<number> {
+  // tails[k] is the index of the smallest value ending a run of length k+1
+  const tails: number[] = [];
+  const parents: number[] = [];
+
+  values.forEach((value, index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (values[tails[middle]] < value) low = middle + 1;
+      else high = middle;
+    }
+
+    parents[index] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = index;
+  });
+
+  const result = new Set<number>();
+  for (
+    let index = tails.length > 0 ? tails[tails.length - 1] : -1;
+    index >= 0;
+    index = parents[index]
+  ) {
+    result.add(index);
+  }
+  return result;
+}
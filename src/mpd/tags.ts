@@ -0,0 +1,72 @@
+import { MpdSong, MpdTag } from "./types";
+
+type MpdSongTag = {
+  [K in keyof MpdSong]-?: MpdSong[K] extends MpdTag | undefined ? K : never;
+}[keyof MpdSong];
+
+/**
+ * MPD's song tags, by their lowercased name in responses
+ */
+export const SONG_TAGS: Record<string, MpdSongTag> = {
+  artist: "artist",
+  artistsort: "artistSort",
+  album: "album",
+  albumsort: "albumSort",
+  albumartist: "albumArtist",
+  albumartistsort: "albumArtistSort",
+  title: "title",
+  titlesort: "titleSort",
+  track: "track",
+  name: "name",
+  genre: "genre",
+  mood: "mood",
+  date: "date",
+  originaldate: "originalDate",
+  composer: "composer",
+  composersort: "composerSort",
+  performer: "performer",
+  conductor: "conductor",
+  work: "work",
+  ensemble: "ensemble",
+  movement: "movement",
+  movementnumber: "movementNumber",
+  showmovement: "showMovement",
+  location: "location",
+  grouping: "grouping",
+  comment: "comment",
+  disc: "disc",
+  label: "label",
+  musicbrainz_artistid: "musicbrainzArtistId",
+  musicbrainz_albumid: "musicbrainzAlbumId",
+  musicbrainz_albumartistid: "musicbrainzAlbumArtistId",
+  musicbrainz_trackid: "musicbrainzTrackId",
+  musicbrainz_releasegroupid: "musicbrainzReleaseGroupId",
+  musicbrainz_releasetrackid: "musicbrainzReleaseTrackId",
+  musicbrainz_workid: "musicbrainzWorkId",
+};
+
+/**
+ * All values of a tag
+ */
+export function tagValues(tag: MpdTag | undefined): string[] {
+  if (tag === undefined) return [];
+  return Array.isArray(tag) ? tag : [tag];
+}
+
+/**
+ * The first value of a tag, for places that need a single one
+ */
+export function firstTag(tag: MpdTag | undefined): string | undefined {
+  return tagValues(tag)[0];
+}
+
+/**
+ * Join the values of a tag for display
+ */
+export function formatTag(
+  tag: MpdTag | undefined,
+  separator: string = ", ",
+): string | undefined {
+  const values = tagValues(tag);
+  return values.length > 0 ? values.join(separator) : undefined;
+}
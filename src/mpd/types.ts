@@ -2,16 +2,58 @@
  * Types for MPD (Music Player Daemon) client
  */
 
+/**
+ * A tag value; tags that occur more than once in a song, like several
+ * artists or genres, are kept as an array in their original order
+ */
+export type MpdTag = string | string[];
+
 export interface MpdSong {
   file: string;
-  artist?: string;
-  album?: string;
-  title?: string;
-  track?: string;
+  artist?: MpdTag;
+  artistSort?: MpdTag;
+  album?: MpdTag;
+  albumSort?: MpdTag;
+  albumArtist?: MpdTag;
+  albumArtistSort?: MpdTag;
+  title?: MpdTag;
+  titleSort?: MpdTag;
+  track?: MpdTag;
+  name?: MpdTag;
+  genre?: MpdTag;
+  mood?: MpdTag;
+  date?: MpdTag;
+  originalDate?: MpdTag;
+  composer?: MpdTag;
+  composerSort?: MpdTag;
+  performer?: MpdTag;
+  conductor?: MpdTag;
+  work?: MpdTag;
+  ensemble?: MpdTag;
+  movement?: MpdTag;
+  movementNumber?: MpdTag;
+  showMovement?: MpdTag;
+  location?: MpdTag;
+  grouping?: MpdTag;
+  comment?: MpdTag;
+  disc?: MpdTag;
+  label?: MpdTag;
+  musicbrainzArtistId?: MpdTag;
+  musicbrainzAlbumId?: MpdTag;
+  musicbrainzAlbumArtistId?: MpdTag;
+  musicbrainzTrackId?: MpdTag;
+  musicbrainzReleaseGroupId?: MpdTag;
+  musicbrainzReleaseTrackId?: MpdTag;
+  musicbrainzWorkId?: MpdTag;
   duration?: number;
   pos?: number;
   id?: number;
   time?: string;
+  // Audio format as "samplerate:bits:channels"
+  format?: string;
+  lastModified?: string;
+  // When the song was added to the database (MPD 0.24)
+  added?: string;
 }
 
 export interface MpdStatus {
@@ -23,6 +65,10 @@ export interface MpdStatus {
   playlist: number;
   playlistlength: number;
   mixrampdb: number;
+  // Seconds; unset when MixRamp is disabled
+  mixrampdelay?: number;
+  // Crossfade in seconds
+  xfade?: number;
   state: 'play' | 'stop' | 'pause';
   song?: number;
   songid?: number;
@@ -33,6 +79,9 @@ export interface MpdStatus {
   audio?: string;
   nextsong?: number;
   nextsongid?: number;
+  partition?: string;
+  // Job id of the running database update
+  updating_db?: number;
 }
 
 export interface MpdStats {
@@ -45,10 +94,247 @@ export interface MpdStats {
   playtime: number;
 }
 
+export interface MpdOutput {
+  id: number;
+  name: string;
+  plugin?: string;
+  enabled: boolean;
+  attributes: Record<string, string>;
+}
+
+/**
+ * Range of queue positions; the end is exclusive and may be omitted to
+ * extend the range to the end of the queue
+ */
+export type MpdRange = [start: number, end?: number];
+
+/**
+ * Where a song is in the queue, as reported by plchangesposid
+ */
+export interface MpdQueuePosition {
+  pos: number;
+  id: number;
+}
+
+/**
+ * How the queue changed between two versions
+ */
+export interface MpdQueueDiff {
+  fromVersion?: number;
+  toVersion: number;
+  added: MpdSong[];
+  removed: MpdSong[];
+  moved: { song: MpdSong; from: number; to: number }[];
+}
+
+/**
+ * An entry of a music directory, as listed by lsinfo and listfiles
+ */
+export type MpdDirectoryEntry =
+  | MpdDirectoryEntryDirectory
+  | MpdDirectoryEntryFile
+  | MpdDirectoryEntryPlaylist;
+
+export interface MpdDirectoryEntryDirectory {
+  type: 'directory';
+  path: string;
+  lastModified?: string;
+}
+
+export interface MpdDirectoryEntryFile {
+  type: 'file';
+  path: string;
+  lastModified?: string;
+  // Only reported by listfiles
+  size?: number;
+  // The song's tags, only reported by lsinfo
+  song?: MpdSong;
+}
+
+export interface MpdDirectoryEntryPlaylist {
+  type: 'playlist';
+  path: string;
+  lastModified?: string;
+}
+
+/**
+ * Storage mounted into the music directory; the root mount has an empty path
+ */
+export interface MpdMount {
+  mount: string;
+  storage: string;
+}
+
+/**
+ * Storage found on the network by a neighbor plugin
+ */
+export interface MpdNeighbor {
+  uri: string;
+  name: string;
+}
+
+/**
+ * Message received on a client-to-client channel
+ */
+export interface MpdMessage {
+  channel: string;
+  message: string;
+}
+
+/**
+ * A command sent as part of a command list
+ */
+export interface MpdCommand {
+  command: string;
+  args?: string[];
+}
+
+/**
+ * Picture returned by albumart or readpicture
+ */
+export interface MpdPicture {
+  data: Buffer;
+  mimeType: string;
+}
+
+/**
+ * ReplayGain modes supported by `replay_gain_mode`
+ */
+export type MpdReplayGainMode = 'off' | 'track' | 'album' | 'auto';
+
+/**
+ * Object types that can carry stickers
+ */
+export type MpdStickerType = 'song' | 'playlist';
+
+/**
+ * A sticker value found by `sticker find`
+ */
+export interface MpdStickerMatch {
+  uri: string;
+  value: string;
+}
+
+/**
+ * Comparison operators of MPD filter expressions
+ */
+export type MpdFilterOperator =
+  '==' | '!=' | 'contains' | 'starts_with' | '=~' | '!~';
+
+/**
+ * MPD 0.21+ filter expression, built with the helpers in ./filter
+ */
+export type MpdFilter =
+  | { type: 'tag'; tag: string; operator: MpdFilterOperator; value: string }
+  | { type: 'not'; filter: MpdFilter }
+  | { type: 'and'; filters: MpdFilter[] }
+  | { type: 'base'; path: string }
+  | { type: 'modified-since'; since: Date | string }
+  | { type: 'audio-format'; operator: '==' | '=~'; format: string };
+
+/**
+ * Sorting and paging options for find and search
+ */
+export interface MpdQueryOptions {
+  // Tag to sort by; prefix with '-' for descending order
+  sort?: string;
+  window?: MpdRange;
+}
+
+/**
+ * A distinct tag value returned by `list`, with the values of the tags it
+ * was grouped by (lowercase tag names)
+ */
+export interface MpdTagValue {
+  value: string;
+  groups: Record<string, string>;
+}
+
+/**
+ * Aggregate returned by `count`; `group` is set when grouping by a tag
+ */
+export interface MpdCount {
+  group?: string;
+  songs: number;
+  playtime: number;
+}
+
+/**
+ * MPD subsystems reported by the `idle` command
+ */
+export type MpdSubsystem =
+  | 'database'
+  | 'update'
+  | 'stored_playlist'
+  | 'playlist'
+  | 'player'
+  | 'mixer'
+  | 'output'
+  | 'options'
+  | 'partition'
+  | 'sticker'
+  | 'subscription'
+  | 'message'
+  | 'neighbor'
+  | 'mount';
+
+/**
+ * Listener for subsystem change events. `change` listeners receive the
+ * name of every subsystem that changed.
+ */
+export type MpdEventListener = (subsystem: MpdSubsystem) => void;
+
+/**
+ * Where an MPD server listens, parsed by parseMpdAddress
+ */
+export interface MpdAddress {
+  host: string;
+  port: number;
+  // Unix socket path; abstract sockets start with "\0"
+  path?: string;
+  password?: string;
+}
+
+/**
+ * Connection state of a client. A client that lost its connection is
+ * `reconnecting` until it gets it back or disconnect() is called.
+ */
+export type MpdConnectionState =
+  'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+/**
+ * Listener for connection state changes
+ */
+export type MpdStateListener = (state: MpdConnectionState) => void;
+
+/**
+ * Connection options for MpdClientImpl
+ */
+export interface MpdClientOptions {
+  // Sent with the password command on every connection; overrides a
+  // password given with the host
+  password?: string;
+  // Reconnect when the connection is lost (defaults to true)
+  reconnect?: boolean;
+  // First retry delay in ms, doubled after every failed attempt
+  reconnectDelay?: number;
+  // Upper bound for the retry delay in ms
+  maxReconnectDelay?: number;
+}
+
 export interface MpdClient {
+  readonly state: MpdConnectionState;
   connect(): Promise<void>;
   disconnect(): Promise<void>;
 
+  // Change events
+  on(event: MpdSubsystem | 'change', listener: MpdEventListener): this;
+  off(event: MpdSubsystem | 'change', listener: MpdEventListener): this;
+
+  // Connection events
+  on(event: 'state', listener: MpdStateListener): this;
+  off(event: 'state', listener: MpdStateListener): this;
+
   // Playback control
   play(position?: number): Promise<void>;
   pause(): Promise<void>;
@@ -56,6 +342,8 @@ export interface MpdClient {
   next(): Promise<void>;
   previous(): Promise<void>;
   seek(songPosition: number, timePosition: number): Promise<void>;
+  seekCur(time: number, relative?: boolean): Promise<void>;
+  seekId(songId: number, timePosition: number): Promise<void>;
 
   // Volume control
   setVolume(volume: number): Promise<void>;
@@ -65,21 +353,137 @@ export interface MpdClient {
   setRandom(random: boolean): Promise<void>;
   setSingle(single: boolean): Promise<void>;
   setConsume(consume: boolean): Promise<void>;
+  setCrossfade(seconds: number): Promise<void>;
+  setMixrampDb(decibels: number): Promise<void>;
+  setMixrampDelay(seconds: number | null): Promise<void>;
+  setReplayGainMode(mode: MpdReplayGainMode): Promise<void>;
+  replayGainStatus(): Promise<MpdReplayGainMode>;
 
   // Current state
   status(): Promise<MpdStatus>;
   currentSong(): Promise<MpdSong | null>;
   stats(): Promise<MpdStats>;
 
+  // Database
+  update(path?: string): Promise<number>;
+  rescan(path?: string): Promise<number>;
+
+  // Audio outputs
+  outputs(): Promise<MpdOutput[]>;
+  enableOutput(id: number): Promise<void>;
+  disableOutput(id: number): Promise<void>;
+  toggleOutput(id: number): Promise<void>;
+  outputSet(id: number, name: string, value: string): Promise<void>;
+
+  // Partitions
+  switchPartition(name: string): Promise<void>;
+  listPartitions(): Promise<string[]>;
+  newPartition(name: string): Promise<void>;
+  deletePartition(name: string): Promise<void>;
+  moveOutput(outputName: string): Promise<void>;
+
+  // Storage
+  mount(path: string, uri: string): Promise<void>;
+  unmount(path: string): Promise<void>;
+  listMounts(): Promise<MpdMount[]>;
+  listNeighbors(): Promise<MpdNeighbor[]>;
+
+  // Permissions
+  commands(): Promise<string[]>;
+  notCommands(): Promise<string[]>;
+
+  // Client-to-client messages
+  subscribe(channel: string): Promise<void>;
+  unsubscribe(channel: string): Promise<void>;
+  channels(): Promise<string[]>;
+  sendMessage(channel: string, message: string): Promise<void>;
+  readMessages(): Promise<MpdMessage[]>;
+
+  // Command lists
+  commandList(commands: MpdCommand[]): Promise<string[]>;
+
+  // Album art
+  albumArt(uri: string): Promise<MpdPicture | undefined>;
+  readPicture(uri: string): Promise<MpdPicture | undefined>;
+
+  // Stickers
+  stickerGet(
+    type: MpdStickerType,
+    uri: string,
+    name: string,
+  ): Promise<string | undefined>;
+  stickerSet(
+    type: MpdStickerType,
+    uri: string,
+    name: string,
+    value: string,
+  ): Promise<void>;
+  stickerDelete(
+    type: MpdStickerType,
+    uri: string,
+    name?: string,
+  ): Promise<void>;
+  stickerList(
+    type: MpdStickerType,
+    uri: string,
+  ): Promise<Record<string, string>>;
+  stickerFind(
+    type: MpdStickerType,
+    uri: string,
+    name: string,
+    match?: { operator: '=' | '<' | '>'; value: string },
+  ): Promise<MpdStickerMatch[]>;
+
   // Playlist management
-  playlistInfo(): Promise<MpdSong[]>;
+  playlistInfo(window?: MpdRange): Promise<MpdSong[]>;
+  plChanges(version: number, window?: MpdRange): Promise<MpdSong[]>;
+  plChangesPosId(
+    version: number,
+    window?: MpdRange,
+  ): Promise<MpdQueuePosition[]>;
   playlistAdd(uri: string): Promise<void>;
-  playlistDelete(position: number): Promise<void>;
+  playlistAddAll(uris: string[], position?: number | string): Promise<number[]>;
+  playlistAddId(uri: string, position?: number | string): Promise<number>;
+  playlistDelete(position: number | MpdRange): Promise<void>;
+  playlistDeleteId(id: number): Promise<void>;
   playlistClear(): Promise<void>;
+  playlistMove(from: number | MpdRange, to: number): Promise<void>;
+  playlistMoveId(id: number, to: number): Promise<void>;
+  playlistSwap(position1: number, position2: number): Promise<void>;
+  playlistSwapId(id1: number, id2: number): Promise<void>;
+  playlistShuffle(range?: MpdRange): Promise<void>;
+  playId(id?: number): Promise<void>;
+  setPriority(priority: number, ranges: MpdRange[]): Promise<void>;
+  setPriorityId(priority: number, ids: number[]): Promise<void>;
 
   // Database
   listAllInfo(path?: string): Promise<MpdSong[]>;
+  lsInfo(path?: string): Promise<MpdDirectoryEntry[]>;
+  listFiles(path?: string): Promise<MpdDirectoryEntry[]>;
+  songInfo(uri: string): Promise<MpdSong | null>;
+  readComments(uri: string): Promise<Record<string, MpdTag>>;
+  getFingerprint(uri: string): Promise<string>;
   search(type: string, query: string): Promise<MpdSong[]>;
+  search(filter: MpdFilter, options?: MpdQueryOptions): Promise<MpdSong[]>;
   find(type: string, query: string): Promise<MpdSong[]>;
+  find(filter: MpdFilter, options?: MpdQueryOptions): Promise<MpdSong[]>;
+  songInfoAll(uris: string[]): Promise<(MpdSong | null)[]>;
+  list(
+    tag: string,
+    filter?: MpdFilter,
+    groupBy?: string | string[],
+  ): Promise<MpdTagValue[]>;
+  count(filter?: MpdFilter, groupBy?: string): Promise<MpdCount[]>;
   listPlaylists(): Promise<{ playlist: string; lastModified: string }[]>;
+
+  // Stored playlists
+  listPlaylistInfo(name: string): Promise<MpdSong[]>;
+  loadPlaylist(name: string): Promise<void>;
+  savePlaylist(name: string): Promise<void>;
+  removePlaylist(name: string): Promise<void>;
+  renamePlaylist(name: string, newName: string): Promise<void>;
+  storedPlaylistAdd(name: string, uri: string): Promise<void>;
+  storedPlaylistDelete(name: string, position: number): Promise<void>;
+  storedPlaylistMove(name: string, from: number, to: number): Promise<void>;
+  storedPlaylistClear(name: string): Promise<void>;
 }
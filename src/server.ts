@@ -11,20 +11,118 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListResourcesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
   ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
+import {
+  buildSearchCriteria,
+  parseSeekPosition,
+  resolveOutput,
+  SEARCH_CRITERIA_PROPERTIES,
+} from "./mcp/arguments";
+import { toMcpError } from "./mcp/errors";
+import { formatDuration } from "./mcp/format";
+import { parseCursor, RESOURCE_PAGE_SIZE, songPage } from "./mcp/paging";
+import { formatMpdAddress, parseMpdAddress } from "./mpd/address";
 import { MpdClientImpl } from "./mpd/client";
-import { MpdSong, MpdStatus, MpdStats } from "./mpd/types";
+import { MpdConnectionError, MpdError, MpdErrorCode } from "./mpd/errors";
+import { ne } from "./mpd/filter";
+import { diffQueues, MpdQueueMirror } from "./mpd/queue";
+import { firstTag, formatTag, SONG_TAGS } from "./mpd/tags";
+import {
+  MpdClient,
+  MpdDirectoryEntryFile,
+  MpdPicture,
+  MpdRange,
+  MpdReplayGainMode,
+  MpdSong,
+  MpdStatus,
+  MpdStats,
+  MpdSubsystem,
+} from "./mpd/types";
 
 // Configuration
 const MPD_HOST = process.env.MPD_HOST || "localhost";
 const MPD_PORT = parseInt(process.env.MPD_PORT || "6600", 10);
+const MPD_PASSWORD = process.env.MPD_PASSWORD || undefined;
+// MPD_HOST may also be a socket path, "password@host" or an mpd:// URL
+const MPD_ADDRESS = formatMpdAddress(parseMpdAddress(MPD_HOST, MPD_PORT));
 const HTTP_PORT = parseInt(process.env.HTTP_PORT || "3000", 10);
+const DEFAULT_PARTITION = "default";
+const MPD_TRACK_PLAYS = process.env.MPD_TRACK_PLAYS === "true";
+
+// Song stickers, using the names and 0-10 rating scale common to MPD clients
+const RATING_STICKER = "rating";
+const PLAY_COUNT_STICKER = "playCount";
+const LAST_PLAYED_STICKER = "lastPlayed";
+
+// How long library_update waits for MPD to finish by default
+const DEFAULT_UPDATE_TIMEOUT = 120;
+
+// Number of distinct album covers attached to search results
+const MAX_SEARCH_COVERS = 3;
+
+// Reported by tools while the connection to MPD is being re-established
+const MPD_UNAVAILABLE = "MPD unavailable, retrying";
+
+// What to do about the MPD errors a user can act on
+const MPD_ERROR_HINTS: Partial<Record<MpdErrorCode, string>> = {
+  [MpdErrorCode.NoExist]:
+    "It doesn't exist in MPD, check the name, URI or position.",
+  [MpdErrorCode.Exist]: "It already exists.",
+  [MpdErrorCode.Arg]: "MPD rejected one of the arguments.",
+  [MpdErrorCode.PlaylistMax]: "The queue or playlist is full.",
+  [MpdErrorCode.PlaylistLoad]: "The playlist could not be loaded.",
+  [MpdErrorCode.UpdateAlready]: "A database update is already running.",
+  [MpdErrorCode.PlayerSync]: "The player changed meanwhile, try again.",
+};
 
 // Initialize MPD client but don't connect immediately
-const mpdClient = new MpdClientImpl(MPD_HOST, MPD_PORT);
+const mpdClient = new MpdClientImpl(MPD_HOST, MPD_PORT, {
+  password: MPD_PASSWORD,
+});
+
+/**
+ * Tag counted by each of the browse tools
+ */
+const BROWSE_TAGS: Record<string, { tag: string; label: string }> = {
+  browse_artists: { tag: "artist", label: "artists" },
+  browse_albums: { tag: "album", label: "albums" },
+  browse_genres: { tag: "genre", label: "genres" },
+};
+
+/**
+ * Arguments shared by the browse tools
+ */
+const BROWSE_PROPERTIES = {
+  ...SEARCH_CRITERIA_PROPERTIES,
+  sort: {
+    type: "string",
+    enum: ["name", "songs", "playtime"],
+    description:
+      "Optional: Order by name, number of songs or total playtime (defaults to name)",
+  },
+  limit: {
+    type: "number",
+    description: "Optional: Maximum number of entries to list (defaults to 50)",
+  },
+};
+
+/**
+ * Option to attach album covers to tool results as image content
+ */
+const INCLUDE_COVER_PROPERTY = {
+  includeCover: {
+    type: "boolean",
+    description:
+      "Optional: Also return the album cover image (defaults to false)",
+  },
+};
 
 /**
  * Create an MCP server with capabilities for resources and tools
@@ -37,12 +135,237 @@ const server = new Server(
   },
   {
     capabilities: {
-      resources: {},
+      resources: { subscribe: true },
       tools: {},
     },
   },
 );
 
+/**
+ * Resources that MCP clients have subscribed to
+ */
+const subscribedResources = new Set<string>();
+
+/**
+ * Resources affected by a change in each MPD subsystem
+ */
+const SUBSYSTEM_RESOURCES: Partial<Record<MpdSubsystem, string[]>> = {
+  player: ["mpd://status", "mpd://current-song", "mpd://current-song/cover"],
+  playlist: ["mpd://status", "mpd://playlist"],
+  mixer: ["mpd://status"],
+  options: ["mpd://status"],
+  update: ["mpd://status"],
+  database: ["mpd://stats", "mpd://library"],
+  output: ["mpd://outputs"],
+  mount: ["mpd://mounts"],
+  subscription: ["mpd://channels"],
+  message: ["mpd://channels"],
+};
+
+/**
+ * Notify subscribers about resources affected by an MPD subsystem change
+ */
+function notifyResourcesUpdated(subsystem: MpdSubsystem): void {
+  const uris = (SUBSYSTEM_RESOURCES[subsystem] || []).filter((uri) =>
+    subscribedResources.has(uri),
+  );
+
+  // Any folder may have changed with the database
+  if (subsystem === "database") {
+    for (const uri of Array.from(subscribedResources)) {
+      if (uri.startsWith("mpd://directory/")) uris.push(uri);
+    }
+  }
+
+  for (const uri of uris) {
+    server
+      .sendResourceUpdated({ uri })
+      .catch((error) =>
+        console.error(`Error sending update for ${uri}:`, error),
+      );
+  }
+}
+
+/**
+ * Resources of a partition affected by a change in each MPD subsystem
+ */
+const PARTITION_SUBSYSTEMS: MpdSubsystem[] = [
+  "player",
+  "playlist",
+  "mixer",
+  "options",
+];
+
+/**
+ * Notify subscribers about a change in one partition's status
+ */
+function notifyPartitionUpdated(
+  partition: string,
+  subsystem: MpdSubsystem,
+): void {
+  const uris: string[] = [];
+  if (PARTITION_SUBSYSTEMS.includes(subsystem)) {
+    uris.push(partitionStatusUri(partition));
+  }
+  if (subsystem === "partition" || subsystem === "output") {
+    uris.push("mpd://partitions");
+  }
+
+  for (const uri of uris) {
+    if (!subscribedResources.has(uri)) continue;
+
+    server
+      .sendResourceUpdated({ uri })
+      .catch((error) =>
+        console.error(`Error sending update for ${uri}:`, error),
+      );
+  }
+}
+
+mpdClient.on("change", notifyResourcesUpdated);
+mpdClient.on("state", (state) =>
+  console.error(`MPD connection ${state} (${MPD_ADDRESS})`),
+);
+mpdClient.on("change", (subsystem) =>
+  notifyPartitionUpdated(DEFAULT_PARTITION, subsystem),
+);
+
+/**
+ * Count plays of a client's songs in the playCount and lastPlayed stickers.
+ * A play is recorded whenever a different song starts playing.
+ */
+function trackPlays(client: MpdClient): void {
+  let lastSongId: number | undefined;
+
+  const recordPlay = async (): Promise<void> => {
+    const status = await client.status();
+    if (status.state !== "play" || status.songid === lastSongId) return;
+    lastSongId = status.songid;
+
+    const song = await client.currentSong();
+    if (!song) return;
+
+    const playCount = await client.stickerGet(
+      "song",
+      song.file,
+      PLAY_COUNT_STICKER,
+    );
+    await client.stickerSet(
+      "song",
+      song.file,
+      PLAY_COUNT_STICKER,
+      String((parseInt(playCount || "0", 10) || 0) + 1),
+    );
+    await client.stickerSet(
+      "song",
+      song.file,
+      LAST_PLAYED_STICKER,
+      String(Math.floor(Date.now() / 1000)),
+    );
+  };
+
+  client.on("player", () => {
+    recordPlay().catch((error) =>
+      console.error("Error recording play count:", error),
+    );
+  });
+}
+
+if (MPD_TRACK_PLAYS) {
+  trackPlays(mpdClient);
+}
+
+/**
+ * Clients for partitions other than the default one.
+ * Each client has its own connection that stays in its partition, so tool
+ * calls for different partitions never switch each other's partition.
+ * The pending connection is kept so concurrent first uses share it.
+ */
+const partitionClients = new Map<string, Promise<MpdClientImpl>>();
+
+function partitionStatusUri(partition: string): string {
+  return `mpd://partition/${encodeURIComponent(partition)}/status`;
+}
+
+/**
+ * Get a connected client for a partition
+ */
+async function getPartitionClient(partition?: string): Promise<MpdClient> {
+  if (!partition || partition === DEFAULT_PARTITION) {
+    return mpdClient;
+  }
+
+  let pending = partitionClients.get(partition);
+  if (!pending) {
+    pending = connectPartitionClient(partition);
+    partitionClients.set(partition, pending);
+    // Let the next use try again after a failed connection
+    const attempt = pending;
+    attempt.catch(() => {
+      if (partitionClients.get(partition) === attempt) {
+        partitionClients.delete(partition);
+      }
+    });
+  }
+  return pending;
+}
+
+/**
+ * Open a client and switch it to the partition
+ */
+async function connectPartitionClient(
+  partition: string,
+): Promise<MpdClientImpl> {
+  const client = new MpdClientImpl(MPD_HOST, MPD_PORT, {
+    password: MPD_PASSWORD,
+  });
+  try {
+    await client.connect();
+    await client.switchPartition(partition);
+  } catch (error) {
+    await client.disconnect();
+    throw withContext(`Cannot use partition '${partition}'`, error);
+  }
+
+  client.on("change", (subsystem) =>
+    notifyPartitionUpdated(partition, subsystem),
+  );
+  if (MPD_TRACK_PLAYS) {
+    trackPlays(client);
+  }
+  return client;
+}
+
+/**
+ * Close the client of a partition, e.g. before the partition is deleted
+ */
+async function releasePartitionClient(partition: string): Promise<void> {
+  const pending = partitionClients.get(partition);
+  if (!pending) return;
+
+  partitionClients.delete(partition);
+  const client = await pending.catch(() => undefined);
+  await client?.disconnect();
+}
+
+/**
+ * Queue mirrors per client, kept up to date with plchanges so long queues
+ * aren't re-read after every change
+ */
+const queueMirrors = new WeakMap<MpdClient, MpdQueueMirror>();
+
+// The queue as last reported by the playlist tool's changes action
+const reportedQueues = new WeakMap<MpdQueueMirror, readonly MpdSong[]>();
+
+function getQueueMirror(client: MpdClient): MpdQueueMirror {
+  let mirror = queueMirrors.get(client);
+  if (!mirror) {
+    mirror = new MpdQueueMirror(client);
+    queueMirrors.set(client, mirror);
+  }
+  return mirror;
+}
+
 /**
  * Handler for listing available MPD resources.
  * Exposes status, current song, playlist, library and stats as resources.
@@ -64,12 +387,18 @@ server.setRequestHandler(ListResourcesRequestSchema, async () => {
         description:
           "Information about the currently playing song (artist, title, album)",
       },
+      {
+        uri: "mpd://current-song/cover",
+        name: "Current Song Cover",
+        description:
+          "Album cover of the currently playing song, from the cover file in its folder or the picture embedded in the file",
+      },
       {
         uri: "mpd://playlist",
         mimeType: "application/json",
         name: "Playlist",
         description:
-          "Current MPD playlist contents - all songs queued for playback",
+          "Current MPD playlist contents - the songs queued for playback, 500 per page: a summary with the total count comes first and nextUri (mpd://playlist?cursor=...) reads the next page. The total duration isn't included, since it would take reading the whole queue",
       },
       {
         uri: "mpd://stats",
@@ -83,7 +412,60 @@ server.setRequestHandler(ListResourcesRequestSchema, async () => {
         mimeType: "application/json",
         name: "Music Library",
         description:
-          "Complete listing of available music in the MPD library (all songs)",
+          "All songs in the MPD library with all their tags (repeated tags as arrays), 500 per page: a summary of the whole library comes first and nextUri (mpd://library?cursor=...) reads the next page",
+      },
+      {
+        uri: "mpd://outputs",
+        mimeType: "application/json",
+        name: "Audio Outputs",
+        description:
+          "Audio outputs configured in MPD (speakers, headphones, streams) and whether they are enabled",
+      },
+      {
+        uri: "mpd://mounts",
+        mimeType: "application/json",
+        name: "Storage Mounts",
+        description:
+          "Storage (network shares, USB drives) mounted into the music library and where it is mounted",
+      },
+      {
+        uri: "mpd://channels",
+        mimeType: "application/json",
+        name: "Message Channels",
+        description:
+          "Client-to-client message channels that MPD clients are subscribed to. Updated when a message arrives on a channel subscribed with the messages tool",
+      },
+      {
+        uri: "mpd://partitions",
+        mimeType: "application/json",
+        name: "Partitions",
+        description:
+          "MPD partitions (zones/rooms) with the status resource of each one",
+      },
+    ],
+  };
+});
+
+/**
+ * Handler for listing MPD resource templates.
+ * Exposes the status of a single partition.
+ */
+server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+  return {
+    resourceTemplates: [
+      {
+        uriTemplate: "mpd://partition/{name}/status",
+        mimeType: "application/json",
+        name: "Partition Status",
+        description:
+          "Playback status of one MPD partition (zone/room), e.g. mpd://partition/kitchen/status",
+      },
+      {
+        uriTemplate: "mpd://directory/{path}",
+        mimeType: "application/json",
+        name: "Music Directory",
+        description:
+          "Subfolders, songs and playlist files in one folder of the music library, e.g. mpd://directory/Jazz/Miles%20Davis (mpd://directory/ for the top level)",
       },
     ],
   };
@@ -110,29 +492,126 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
           text = JSON.stringify(data, null, 2);
           break;
 
-        case "current-song":
+        case "current-song": {
           data = await mpdClient.currentSong();
+
+          if (url.pathname === "/cover") {
+            const cover = data
+              ? await getCoverArt(mpdClient, data.file)
+              : undefined;
+            if (!cover) {
+              throw new Error(
+                data ? "No cover art for the current song" : "No song playing",
+              );
+            }
+            return {
+              contents: [
+                {
+                  uri: request.params.uri,
+                  mimeType: cover.mimeType,
+                  blob: cover.data.toString("base64"),
+                },
+              ],
+            };
+          }
+
           text = JSON.stringify(
             data || { message: "No song playing" },
             null,
             2,
           );
           break;
+        }
 
-        case "playlist":
-          data = await mpdClient.playlistInfo();
+        case "playlist": {
+          // Only the requested page is read. MPD has no total duration for
+          // the queue, which would take reading all of it.
+          const offset = parseCursor(url);
+          const { playlistlength } = await mpdClient.status();
+          const songs =
+            offset < playlistlength
+              ? await mpdClient.playlistInfo([
+                  offset,
+                  offset + RESOURCE_PAGE_SIZE,
+                ])
+              : [];
+          data = songPage(request.params.uri, offset, songs, playlistlength);
           text = JSON.stringify(data, null, 2);
           break;
+        }
 
         case "stats":
           data = await mpdClient.stats();
           text = JSON.stringify(data, null, 2);
           break;
 
-        case "library":
-          data = await mpdClient.listAllInfo();
+        case "library": {
+          // Every song has a file name, so this filter pages through the
+          // whole database without transferring it
+          const offset = parseCursor(url);
+          const stats = await mpdClient.stats();
+          const songs = await mpdClient.find(ne("file", ""), {
+            window: [offset, offset + RESOURCE_PAGE_SIZE],
+          });
+          data = songPage(
+            request.params.uri,
+            offset,
+            songs,
+            stats.songs,
+            stats.db_playtime,
+          );
+          text = JSON.stringify(data, null, 2);
+          break;
+        }
+
+        case "outputs":
+          data = await mpdClient.outputs();
+          text = JSON.stringify(data, null, 2);
+          break;
+
+        case "mounts":
+          data = await mpdClient.listMounts();
+          text = JSON.stringify(data, null, 2);
+          break;
+
+        case "channels":
+          data = await mpdClient.channels();
+          text = JSON.stringify(data, null, 2);
+          break;
+
+        case "partitions": {
+          // Listed on the default connection; reading every status would
+          // keep a connection open per partition
+          const names = await mpdClient.listPartitions();
+          data = names.map((name) => ({
+            name,
+            status: partitionStatusUri(name),
+          }));
+          text = JSON.stringify(data, null, 2);
+          break;
+        }
+
+        case "partition": {
+          // mpd://partition/{name}/status
+          const [name, item] = url.pathname.slice(1).split("/");
+          if (!name || item !== "status") {
+            throw new Error(`Unknown resource: ${request.params.uri}`);
+          }
+          const client = await getPartitionClient(decodeURIComponent(name));
+          data = await client.status();
+          text = JSON.stringify(data, null, 2);
+          break;
+        }
+
+        case "directory": {
+          // mpd://directory/{path}, one level at a time
+          const path = decodeURIComponent(url.pathname)
+            .replace(/^\/+/, "")
+            .replace(/\/+$/, "");
+          data = await mpdClient.lsInfo(path);
           text = JSON.stringify(data, null, 2);
           break;
+        }
 
         default:
           throw new Error(`Unknown resource: ${resource}`);
@@ -148,14 +627,37 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
         ],
       };
     } catch (error) {
-      throw new Error(
-        `Error reading resource ${resource}: ${(error as Error).message}`,
-      );
+      throw withContext(`Error reading resource ${resource}`, error);
     }
   } catch (error) {
     console.error("Error in ReadResourceRequestSchema handler:", error);
-    throw error;
+    throw toMcpError(error);
+  }
+});
+
+/**
+ * Handler for subscribing to MPD resources.
+ * Subscribers receive resources/updated notifications when MPD reports a change.
+ */
+server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+  const uri = request.params.uri;
+  if (!uri.startsWith("mpd://")) {
+    throw new Error(`Unknown resource: ${uri}`);
   }
+
+  subscribedResources.add(uri);
+
+  // Connecting opens the idle connection that drives the notifications
+  await ensureConnected();
+  return {};
+});
+
+/**
+ * Handler for unsubscribing from MPD resources.
+ */
+server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+  subscribedResources.delete(request.params.uri);
+  return {};
 });
 
 /**
@@ -163,218 +665,705 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
  * Exposes tools for playback control, volume control, search, playlist management, etc.
  */
 server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      {
-        name: "help",
-        description:
-          "Get help on how to use the music player and available commands",
-        inputSchema: {
-          type: "object",
-          properties: {
-            topic: {
-              type: "string",
-              description:
-                "Optional topic to get help on (e.g., 'search', 'playback', 'playlist')",
-            },
+  const tools = [
+    {
+      name: "help",
+      description:
+        "Get help on how to use the music player and available commands",
+      inputSchema: {
+        type: "object",
+        properties: {
+          topic: {
+            type: "string",
+            description:
+              "Optional topic to get help on (e.g., 'search', 'playback', 'playlist')",
           },
         },
       },
-      {
-        name: "resume",
-        description: "Resume or start playing music from the current playlist",
-        inputSchema: {
-          type: "object",
-          properties: {},
+    },
+    {
+      name: "resume",
+      description: "Resume or start playing music from the current playlist",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...INCLUDE_COVER_PROPERTY,
         },
       },
-      {
-        name: "pause",
-        description: "Pause the music that is currently playing",
-        inputSchema: {
-          type: "object",
-          properties: {},
+    },
+    {
+      name: "pause",
+      description: "Pause the music that is currently playing",
+      inputSchema: {
+        type: "object",
+        properties: {},
+      },
+    },
+    {
+      name: "next",
+      description: "Skip to the next song in your playlist",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...INCLUDE_COVER_PROPERTY,
         },
       },
-      {
-        name: "next",
-        description: "Skip to the next song in your playlist",
-        inputSchema: {
-          type: "object",
-          properties: {},
+    },
+    {
+      name: "player",
+      description:
+        "Advanced music player controls - play, stop, or navigate to previous tracks",
+      inputSchema: {
+        type: "object",
+        properties: {
+          action: {
+            type: "string",
+            enum: ["resume", "pause", "stop", "next", "previous"],
+            description: "Which action to perform on the music player",
+          },
+          position: {
+            type: "number",
+            description: "Optional song position number for resume action",
+          },
         },
+        required: ["action"],
       },
-      {
-        name: "player",
-        description:
-          "Advanced music player controls - play, stop, or navigate to previous tracks",
-        inputSchema: {
-          type: "object",
-          properties: {
-            action: {
-              type: "string",
-              enum: ["resume", "pause", "stop", "next", "previous"],
-              description: "Which action to perform on the music player",
-            },
-            position: {
-              type: "number",
-              description: "Optional song position number for resume action",
-            },
-          },
-          required: ["action"],
+    },
+    {
+      name: "seek",
+      description:
+        'Jump to a point in the current song - to a time ("1:23", "90s"), forward or back ("+30s", "-10s"), or to a percentage ("50%")',
+      inputSchema: {
+        type: "object",
+        properties: {
+          position: {
+            type: "string",
+            description:
+              "Where to jump: a time like '1:23' or '90s', an offset like '+30s' or '-1:00', or a percentage like '50%'",
+          },
         },
+        required: ["position"],
       },
-      {
-        name: "volume",
-        description:
-          "Change how loud the music plays (0 is silent, 100 is loudest)",
-        inputSchema: {
-          type: "object",
-          properties: {
-            volume: {
-              type: "number",
-              minimum: 0,
-              maximum: 100,
-              description: "Volume level from 0 (silent) to 100 (loudest)",
-            },
-          },
-          required: ["volume"],
+    },
+    {
+      name: "volume",
+      description:
+        "Change how loud the music plays (0 is silent, 100 is loudest)",
+      inputSchema: {
+        type: "object",
+        properties: {
+          volume: {
+            type: "number",
+            minimum: 0,
+            maximum: 100,
+            description: "Volume level from 0 (silent) to 100 (loudest)",
+          },
         },
+        required: ["volume"],
       },
-      {
-        name: "search",
-        description:
-          "Find songs in your music library - search by name, artist, or album",
-        inputSchema: {
-          type: "object",
-          properties: {
-            query: {
-              type: "string",
-              description:
-                "What music you want to find - enter any search terms",
-            },
-            type: {
-              type: "string",
-              enum: ["artist", "album", "title", "any"],
-              description:
-                "Optional: Limit search to artist names, album names, or song titles (defaults to 'any')",
-            },
-          },
-          required: ["query"],
+    },
+    {
+      name: "search",
+      description:
+        "Find songs in your music library - search by name, or combine fields like artist, album and year",
+      inputSchema: {
+        type: "object",
+        properties: {
+          query: {
+            type: "string",
+            description: "What music you want to find - enter any search terms",
+          },
+          type: {
+            type: "string",
+            enum: ["artist", "album", "title", "any"],
+            description:
+              "Optional: Limit search to artist names, album names, or song titles (defaults to 'any')",
+          },
+          ...SEARCH_CRITERIA_PROPERTIES,
+          sort: {
+            type: "string",
+            description:
+              "Optional: Sort results by a tag when searching with field criteria, e.g. 'date' or '-date' for newest first",
+          },
+          ...INCLUDE_COVER_PROPERTY,
         },
       },
-      {
-        name: "play",
-        description: "Play a specific song, album, or artist by name",
-        inputSchema: {
-          type: "object",
-          properties: {
-            query: {
-              type: "string",
-              description:
-                "Name of the song, album, or artist you want to play",
-            },
-            type: {
-              type: "string",
-              enum: ["artist", "album", "title", "any"],
-              description:
-                "Optional: Specify if you're looking for an artist, album, or song title (defaults to 'any')",
-            },
-          },
-          required: ["query"],
+    },
+    {
+      name: "play",
+      description:
+        "Play a specific song, album, or artist by name, or everything matching fields like artist, album and year",
+      inputSchema: {
+        type: "object",
+        properties: {
+          query: {
+            type: "string",
+            description: "Name of the song, album, or artist you want to play",
+          },
+          type: {
+            type: "string",
+            enum: ["artist", "album", "title", "any"],
+            description:
+              "Optional: Specify if you're looking for an artist, album, or song title (defaults to 'any')",
+          },
+          ...SEARCH_CRITERIA_PROPERTIES,
+          ...INCLUDE_COVER_PROPERTY,
         },
       },
-      {
-        name: "playlist",
-        description:
-          "Add or remove songs from your playlist, or clear the whole list",
-        inputSchema: {
-          type: "object",
-          properties: {
-            action: {
-              type: "string",
-              enum: ["add", "delete", "clear"],
-              description:
-                "What you want to do with the playlist: add a song, delete a song, or clear all songs",
-            },
-            uriOrQuery: {
-              type: "string",
-              description:
-                "Path to the song file you want to add (needed only when adding)",
-            },
-            position: {
-              type: "number",
-              description:
-                "Position number of the song to remove (needed only when deleting)",
-            },
-          },
-          required: ["action"],
+    },
+    {
+      name: "playlist",
+      description:
+        "Manage the play queue - add songs (at the end, at a position, or to play next), remove, move, swap, shuffle, prioritise, or clear the whole list",
+      inputSchema: {
+        type: "object",
+        properties: {
+          action: {
+            type: "string",
+            enum: [
+              "add",
+              "add_next",
+              "delete",
+              "delete_id",
+              "clear",
+              "move",
+              "move_id",
+              "swap",
+              "swap_id",
+              "shuffle",
+              "play_id",
+              "priority",
+              "changes",
+            ],
+            description:
+              "What you want to do with the playlist: add a song (optionally at a position), add a song to play next, delete songs by position or id, clear all songs, move or swap songs by position or id, shuffle all or part of the list, play a song by id, set the priority songs get in random mode, or see what changed since you last asked",
+          },
+          uriOrQuery: {
+            type: "string",
+            description:
+              "Path to the song file or a search query (needed only when adding)",
+          },
+          all: {
+            type: "boolean",
+            description:
+              "Optional: When adding by search query, add every matching song instead of the best match",
+          },
+          position: {
+            type: "number",
+            description:
+              "Position number of the song in the playlist (insert position for add; first song of the range for delete, move, shuffle and priority)",
+          },
+          end: {
+            type: "number",
+            description:
+              "Optional: Position after the last song of the range, to work on several songs at once (delete, move, shuffle, priority)",
+          },
+          to: {
+            type: "number",
+            description:
+              "Target position for move and move_id, or the other position for swap",
+          },
+          id: {
+            type: "number",
+            description:
+              "Song id in the playlist (needed for delete_id, move_id, swap_id, play_id; optional for priority)",
+          },
+          toId: {
+            type: "number",
+            description: "The other song id (needed only for swap_id)",
+          },
+          priority: {
+            type: "number",
+            minimum: 0,
+            maximum: 255,
+            description:
+              "Priority from 0 (default) to 255 (played first in random mode)",
+          },
         },
+        required: ["action"],
       },
-      {
-        name: "settings",
-        description:
-          "Change how music plays - repeat songs, shuffle, play once, or remove after playing",
-        inputSchema: {
-          type: "object",
-          properties: {
-            repeat: {
-              type: "boolean",
-              description:
-                "Turn on/off repeat mode (play the playlist over and over)",
-            },
-            random: {
-              type: "boolean",
-              description:
-                "Turn on/off shuffle mode (play songs in random order)",
-            },
-            single: {
-              type: "boolean",
-              description:
-                "Turn on/off single mode (play only one song and stop)",
-            },
-            consume: {
-              type: "boolean",
-              description:
-                "Turn on/off consume mode (remove songs from playlist after playing)",
-            },
+    },
+    {
+      name: "stored_playlist",
+      description:
+        "Manage saved playlists - list, show, load, save the current queue, rename, delete, or edit their songs",
+      inputSchema: {
+        type: "object",
+        properties: {
+          action: {
+            type: "string",
+            enum: [
+              "list",
+              "show",
+              "load",
+              "save",
+              "rename",
+              "delete",
+              "add",
+              "remove",
+              "move",
+              "clear",
+            ],
+            description:
+              "What to do: list saved playlists, show a playlist's songs, load it into the queue, save the queue under a name, rename or delete it, add/remove/move songs in it, or clear it",
+          },
+          name: {
+            type: "string",
+            description:
+              "Name of the saved playlist (needed for every action except list)",
+          },
+          newName: {
+            type: "string",
+            description:
+              "New name for the playlist (needed only when renaming)",
+          },
+          uri: {
+            type: "string",
+            description:
+              "Path to the song file to add to the playlist (needed only when adding)",
+          },
+          position: {
+            type: "number",
+            description:
+              "Position of the song in the saved playlist (needed only when removing)",
+          },
+          from: {
+            type: "number",
+            description:
+              "Current position of the song (needed only when moving)",
+          },
+          to: {
+            type: "number",
+            description: "New position for the song (needed only when moving)",
           },
         },
+        required: ["action"],
       },
-    ],
-  };
-});
-
-/**
- * Handler for executing MPD tools.
- * Implements various music playback control functions.
- */
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  try {
-    await ensureConnected();
-
-    switch (request.params.name) {
-      case "help": {
-        const topic = request.params.arguments?.topic as string | undefined;
-        let helpText = "";
-
-        if (!topic) {
-          helpText = `# MPD Music Player Help
-
-Welcome to the MPD Music Control Server! Here are the available commands:
-
-## Basic Controls
-- \`resume\` - Start playing music
-- \`pause\` - Pause the music that is currently playing
-- \`next\` - Skip to the next song
-- \`play\` - Play a specific artist, album, or song by name (use simple terms)
+    },
+    {
+      name: "outputs",
+      description:
+        "Choose where music plays - list audio outputs (speakers, headphones, streams) and turn them on or off",
+      inputSchema: {
+        type: "object",
+        properties: {
+          action: {
+            type: "string",
+            enum: ["list", "enable", "disable", "toggle", "only", "set"],
+            description:
+              "What to do: list outputs, enable/disable/toggle one, play only on one output (disabling the others), or set an output attribute",
+          },
+          output: {
+            type: "string",
+            description:
+              "Name or id of the output (needed for every action except list)",
+          },
+          attribute: {
+            type: "string",
+            description:
+              "Name of the attribute to change (needed only for set)",
+          },
+          value: {
+            type: "string",
+            description: "New attribute value (needed only for set)",
+          },
+        },
+        required: ["action"],
+      },
+    },
+    {
+      name: "partitions",
+      description:
+        "Manage partitions (independent zones/rooms) - list them, create or delete one, or move an output into the partition given by the partition argument",
+      inputSchema: {
+        type: "object",
+        properties: {
+          action: {
+            type: "string",
+            enum: ["list", "create", "delete", "move_output"],
+            description:
+              "What to do: list partitions, create or delete a partition, or move an output into the selected partition",
+          },
+          name: {
+            type: "string",
+            description:
+              "Name of the partition to create or delete (needed only for create and delete)",
+          },
+          output: {
+            type: "string",
+            description:
+              "Name of the output to move (needed only for move_output)",
+          },
+        },
+        required: ["action"],
+      },
+    },
+    {
+      name: "storage",
+      description:
+        "Manage storage mounted into the music library - list mounts, find network shares, mount or unmount a share, or browse the songs on a mount",
+      inputSchema: {
+        type: "object",
+        properties: {
+          action: {
+            type: "string",
+            enum: ["list", "neighbors", "mount", "unmount", "browse"],
+            description:
+              "What to do: list mounts, list shares found on the network, mount or unmount storage, or browse the songs on a mount",
+          },
+          path: {
+            type: "string",
+            description:
+              "Mount point in the music library, e.g. 'nas' (needed for mount, unmount and browse)",
+          },
+          uri: {
+            type: "string",
+            description:
+              "Storage to mount, e.g. 'nfs://nas.local/music' or 'smb://nas/music' (needed only for mount)",
+          },
+          limit: {
+            type: "number",
+            description:
+              "Optional: Maximum number of songs to list when browsing (defaults to 50)",
+          },
+        },
+        required: ["action"],
+      },
+    },
+    {
+      name: "messages",
+      description:
+        "Send and read messages on named channels shared with other MPD clients - list channels, subscribe or unsubscribe, send a message, or read the messages received",
+      inputSchema: {
+        type: "object",
+        properties: {
+          action: {
+            type: "string",
+            enum: ["channels", "subscribe", "unsubscribe", "send", "read"],
+            description:
+              "What to do: list channels, subscribe to or unsubscribe from a channel, send a message, or read (and remove) the messages received on subscribed channels",
+          },
+          channel: {
+            type: "string",
+            description:
+              "Channel name (needed for subscribe, unsubscribe and send)",
+          },
+          message: {
+            type: "string",
+            description: "Text to send (needed only for send)",
+          },
+        },
+        required: ["action"],
+      },
+    },
+    {
+      name: "rate_song",
+      description:
+        "Rate a song from 0 to 5 stars (0 removes the rating), or show its rating and play count - defaults to the song that is playing",
+      inputSchema: {
+        type: "object",
+        properties: {
+          rating: {
+            type: "number",
+            minimum: 0,
+            maximum: 5,
+            description:
+              "Optional: Stars from 1 to 5, or 0 to remove the rating. Leave out to just show the rating",
+          },
+          uri: {
+            type: "string",
+            description: "Optional: Path to the song file to rate",
+          },
+          position: {
+            type: "number",
+            description: "Optional: Playlist position of the song to rate",
+          },
+        },
+      },
+    },
+    {
+      name: "song_info",
+      description:
+        "Show everything MPD knows about a song: all tags, the audio format, the raw comments stored in the file and its stickers (rating, play count, ...) - defaults to the song that is playing",
+      inputSchema: {
+        type: "object",
+        properties: {
+          uri: {
+            type: "string",
+            description: "Optional: Path to the song file",
+          },
+          position: {
+            type: "number",
+            description: "Optional: Playlist position of the song",
+          },
+          fingerprint: {
+            type: "boolean",
+            description:
+              "Optional: Also calculate the song's Chromaprint fingerprint (takes a moment, needs MPD built with Chromaprint)",
+          },
+        },
+      },
+    },
+    {
+      name: "favorites",
+      description:
+        "List or play your highest rated songs, optionally only those matching fields like artist, album or genre",
+      inputSchema: {
+        type: "object",
+        properties: {
+          minRating: {
+            type: "number",
+            minimum: 1,
+            maximum: 5,
+            description: "Optional: Minimum stars (defaults to 4)",
+          },
+          ...SEARCH_CRITERIA_PROPERTIES,
+          sort: {
+            type: "string",
+            enum: ["rating", "plays"],
+            description:
+              "Optional: Order by rating or by play count (defaults to rating)",
+          },
+          limit: {
+            type: "number",
+            description:
+              "Optional: Maximum number of songs to list (defaults to 25)",
+          },
+          play: {
+            type: "boolean",
+            description:
+              "Optional: Replace the playlist with the matching songs and start playing",
+          },
+        },
+      },
+    },
+    {
+      name: "browse_artists",
+      description:
+        "List the artists in your library with their number of songs and total playtime, optionally only those matching fields like genre or year",
+      inputSchema: {
+        type: "object",
+        properties: BROWSE_PROPERTIES,
+      },
+    },
+    {
+      name: "browse_albums",
+      description:
+        "List the albums in your library with their number of songs and total playtime, optionally only those matching fields like artist, genre or year",
+      inputSchema: {
+        type: "object",
+        properties: BROWSE_PROPERTIES,
+      },
+    },
+    {
+      name: "browse_genres",
+      description:
+        "List the genres in your library with their number of songs and total playtime, optionally only those matching fields like artist or year",
+      inputSchema: {
+        type: "object",
+        properties: BROWSE_PROPERTIES,
+      },
+    },
+    {
+      name: "browse",
+      description:
+        "Browse the folders of the music library one level at a time, listing subfolders, songs and playlist files",
+      inputSchema: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description:
+              "Optional: Folder relative to the music directory, e.g. 'Jazz/Miles Davis' (defaults to the top level)",
+          },
+          allFiles: {
+            type: "boolean",
+            description:
+              "Optional: Also list files that aren't songs, like cover images",
+          },
+          limit: {
+            type: "number",
+            description:
+              "Optional: Maximum number of entries to list (defaults to 100)",
+          },
+        },
+      },
+    },
+    {
+      name: "library_update",
+      description:
+        "Make MPD pick up new, changed or removed music files, for the whole library or one folder, and optionally wait to see what changed",
+      inputSchema: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description:
+              "Optional: Folder to update, relative to the music directory (defaults to everything)",
+          },
+          rescan: {
+            type: "boolean",
+            description:
+              "Optional: Also re-read files that haven't been modified (slower, defaults to false)",
+          },
+          wait: {
+            type: "boolean",
+            description:
+              "Optional: Wait for the update to finish and report how the song and album counts changed (defaults to false)",
+          },
+          timeout: {
+            type: "number",
+            description: `Optional: Seconds to wait when waiting (defaults to ${DEFAULT_UPDATE_TIMEOUT})`,
+          },
+        },
+      },
+    },
+    {
+      name: "settings",
+      description:
+        "Change how music plays - repeat songs, shuffle, play once, remove after playing, crossfade or MixRamp between songs, and ReplayGain volume levelling. Without arguments, shows the current settings",
+      inputSchema: {
+        type: "object",
+        properties: {
+          repeat: {
+            type: "boolean",
+            description:
+              "Turn on/off repeat mode (play the playlist over and over)",
+          },
+          random: {
+            type: "boolean",
+            description:
+              "Turn on/off shuffle mode (play songs in random order)",
+          },
+          single: {
+            type: "boolean",
+            description:
+              "Turn on/off single mode (play only one song and stop)",
+          },
+          consume: {
+            type: "boolean",
+            description:
+              "Turn on/off consume mode (remove songs from playlist after playing)",
+          },
+          crossfade: {
+            type: "number",
+            minimum: 0,
+            description: "Seconds to crossfade between songs (0 turns it off)",
+          },
+          mixrampdb: {
+            type: "number",
+            description:
+              "MixRamp threshold in decibels, usually negative (e.g. -17)",
+          },
+          mixrampdelay: {
+            type: "number",
+            description:
+              "Seconds to subtract from the MixRamp overlap (a negative value turns MixRamp off)",
+          },
+          replayGain: {
+            type: "string",
+            enum: ["off", "track", "album", "auto"],
+            description:
+              "ReplayGain mode: level the volume per track, per album, automatically (album in order, track in random mode), or off",
+          },
+        },
+      },
+    },
+  ];
+
+  return {
+    tools: tools.map((tool) =>
+      tool.name === "help" ? tool : withPartitionArgument(tool),
+    ),
+  };
+});
+
+/**
+ * Add the optional partition argument to a tool's input schema
+ */
+function withPartitionArgument<
+  T extends { inputSchema: { properties: Record<string, unknown> } },
+>(tool: T): T {
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        partition: {
+          type: "string",
+          description:
+            "Optional: MPD partition (zone/room) to control (defaults to the default partition)",
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Handler for executing MPD tools.
+ * Implements various music playback control functions.
+ */
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  try {
+    await ensureConnected();
+
+    // Tools run against the requested partition, or the default one. The
+    // partitions tool resolves it itself, as only move_output acts on one.
+    const partition =
+      request.params.arguments?.partition !== undefined
+        ? String(request.params.arguments.partition)
+        : undefined;
+    const client =
+      request.params.name === "partitions"
+        ? mpdClient
+        : await getPartitionClient(partition);
+
+    switch (request.params.name) {
+      case "help": {
+        const topic = request.params.arguments?.topic as string | undefined;
+        let helpText = "";
+
+        if (!topic) {
+          helpText = `# MPD Music Player Help
+
+Welcome to the MPD Music Control Server! Here are the available commands:
+
+## Basic Controls
+- \`resume\` - Start playing music
+- \`pause\` - Pause the music that is currently playing
+- \`next\` - Skip to the next song
+- \`play\` - Play a specific artist, album, or song by name (use simple terms)
 - \`player\` - Advanced playback control with options
+- \`seek\` - Jump to a time in the current song, forward or back
 
 ## Searching Music
 - \`search\` - Find music by artist, album, title or any field
+- \`browse_artists\`, \`browse_albums\`, \`browse_genres\` - List what's in your library with song counts and playtime
+- \`browse\` - Walk through the folders of your library
+- \`song_info\` - Show all tags, the audio format, raw comments and stickers of a song
+- \`library_update\` - Scan the music folder for new or changed files
 
 ## Playlist Management
-- \`playlist\` - Manage your playlist (add, remove, clear)
+- \`playlist\` - Manage your playlist (add, play next, remove, move, swap, shuffle, clear)
+- \`stored_playlist\` - Save, load, rename and edit saved playlists
+
+## Ratings
+- \`rate_song\` - Rate the current song (or any song) from 1 to 5 stars
+- \`favorites\` - List or play your highest rated songs
+
+## Outputs
+- \`outputs\` - List audio outputs and switch between speakers, headphones and streams
+
+## Messages
+- \`messages\` - Send and read messages on channels shared with other MPD clients
+
+## Storage
+- \`storage\` - Mount network shares into your library and browse them
+
+## Partitions
+- \`partitions\` - List, create and delete partitions (zones/rooms) and move outputs between them
+- Every tool accepts an optional \`partition\` argument to control a specific zone
 
 ## Settings
 - \`volume\` - Set the volume level
@@ -385,6 +1374,7 @@ You can also view:
 - Current playing song info
 - Your playlist
 - Library statistics
+- Audio outputs
 
 For more specific help, try \`help\` with a topic like "search", "playback", or "playlist".`;
         } else {
@@ -404,9 +1394,41 @@ Advanced search (specify field type):
 - Types: "artist", "album", "title", "any"
 - Example: \`{"type": "artist", "query": "deftones"}\`
 
+Multi-field search (all fields must match):
+- Fields: "artist", "album", "title", "albumartist", "genre", "composer", "year"
+- Example: \`{"artist": "deftones", "album": "white pony"}\`
+- Example: \`{"genre": "jazz", "year": "1959", "sort": "album"}\`
+
+Add \`"includeCover": true\` to see the album covers of the results.
+
 Search results will show matching songs that you can then play.`;
               break;
 
+            case "browse":
+              helpText = `# Library Browsing Help
+
+Use \`browse_artists\`, \`browse_albums\` and \`browse_genres\` to see what's in your library. Each entry shows its number of songs and total playtime.
+
+- All genres: \`{}\`
+- Albums by an artist: \`{"artist": "deftones"}\`
+- Jazz artists with the most music first: \`{"genre": "jazz", "sort": "playtime"}\`
+- Albums from a year: \`{"year": "1999", "limit": 20}\`
+
+Field criteria work like in \`search\`. Use \`play\` with an album or artist name to play what you found.
+
+Use \`browse\` to walk through the music folders one level at a time:
+- Top level: \`{}\`
+- A folder: \`{"path": "Jazz/Miles Davis"}\`
+- Including covers and other files: \`{"path": "Jazz/Miles Davis/Kind of Blue", "allFiles": true}\`
+
+Add songs from a folder with \`playlist\` and their file path.
+
+Added new music? Use \`library_update\` to make MPD pick it up:
+- Update everything: \`{}\`
+- Update one folder and wait for the result: \`{"path": "Deftones/White Pony", "wait": true}\`
+- Re-read unchanged files too: \`{"rescan": true}\``;
+              break;
+
             case "playback":
             case "play":
               helpText = `# Playback Control Help
@@ -421,7 +1443,14 @@ Basic controls:
   - Play album: \`{"query": "white pony", "type": "album"}\`
   - Play song: \`{"query": "be quiet", "type": "title"}\`
   - Simple search and play: \`{"query": "deftones"}\`
+  - Play everything matching several fields: \`{"artist": "deftones", "year": "2000"}\`
   - Note: Use simple search terms rather than copying the full formatted result
+- Add \`"includeCover": true\` to \`resume\`, \`next\` or \`play\` to show the album cover
+
+Jump within the current song with \`seek\`:
+- To a time: \`{"position": "1:23"}\` or \`{"position": "90s"}\`
+- Forward or back: \`{"position": "+30s"}\` or \`{"position": "-10s"}\`
+- To a percentage: \`{"position": "50%"}\`
 
 Advanced control with \`player\`:
 - Resume: \`{"action": "resume"}\`
@@ -435,7 +1464,11 @@ Playback options with \`settings\`:
 - Repeat mode: \`{"repeat": true}\`
 - Random mode: \`{"random": true}\`
 - Single mode: \`{"single": true}\`
-- Consume mode: \`{"consume": true}\``;
+- Consume mode: \`{"consume": true}\`
+- Crossfade: \`{"crossfade": 3}\` (0 turns it off)
+- MixRamp: \`{"mixrampdb": -17, "mixrampdelay": 2}\` (a negative delay turns it off)
+- ReplayGain: \`{"replayGain": "album"}\` ("off", "track", "album" or "auto")
+- Show current settings: \`{}\``;
               break;
 
             case "playlist":
@@ -443,11 +1476,116 @@ Playback options with \`settings\`:
 
 Use \`playlist\` with these actions:
 
-- Add a song: \`{"action": "add", "uri": "file_path_or_uri"}\`
+- Add a song: \`{"action": "add", "uriOrQuery": "file_path_or_uri"}\`
+- Insert a song at a position: \`{"action": "add", "uriOrQuery": "file_path_or_uri", "position": 0}\`
+- Play a song next: \`{"action": "add_next", "uriOrQuery": "file_path_or_uri"}\`
+- Add every song matching a search: \`{"action": "add", "uriOrQuery": "white pony", "all": true}\`
 - Remove a song: \`{"action": "delete", "position": 2}\`
+- Remove several songs: \`{"action": "delete", "position": 2, "end": 5}\`
+- Remove a song by id: \`{"action": "delete_id", "id": 17}\`
+- Move songs: \`{"action": "move", "position": 5, "to": 0}\`
+- Move a song by id: \`{"action": "move_id", "id": 17, "to": 1}\`
+- Swap two songs: \`{"action": "swap", "position": 1, "to": 4}\`
+- Swap two songs by id: \`{"action": "swap_id", "id": 17, "toId": 21}\`
+- Shuffle the playlist: \`{"action": "shuffle"}\`
+- Shuffle part of it: \`{"action": "shuffle", "position": 3, "end": 10}\`
+- Play a song by id: \`{"action": "play_id", "id": 17}\`
+- Prioritise a song in random mode: \`{"action": "priority", "id": 17, "priority": 255}\`
 - Clear playlist: \`{"action": "clear"}\`
+- See what was added, removed or moved since you last asked: \`{"action": "changes"}\`
+
+You can view the current playlist contents through the MPD resources.
+
+Use \`stored_playlist\` for saved playlists:
+
+- List saved playlists: \`{"action": "list"}\`
+- Show songs: \`{"action": "show", "name": "Friday Mix"}\`
+- Save the queue: \`{"action": "save", "name": "Friday Mix"}\`
+- Load into the queue: \`{"action": "load", "name": "Friday Mix"}\`
+- Rename: \`{"action": "rename", "name": "Friday Mix", "newName": "Weekend Mix"}\`
+- Delete: \`{"action": "delete", "name": "Friday Mix"}\`
+- Add a song: \`{"action": "add", "name": "Friday Mix", "uri": "file_path"}\`
+- Remove a song: \`{"action": "remove", "name": "Friday Mix", "position": 2}\`
+- Move a song: \`{"action": "move", "name": "Friday Mix", "from": 2, "to": 0}\`
+- Clear: \`{"action": "clear", "name": "Friday Mix"}\``;
+              break;
+
+            case "ratings":
+            case "favorites":
+              helpText = `# Ratings Help
+
+Ratings are stored in MPD's sticker database (0-10 scale, 2 points per star), so other MPD clients can see them.
+
+Use \`rate_song\` to rate songs:
+- Rate the current song: \`{"rating": 5}\`
+- Rate a song in the playlist: \`{"rating": 4, "position": 3}\`
+- Rate a song file: \`{"rating": 3, "uri": "path/to/song.mp3"}\`
+- Remove a rating: \`{"rating": 0}\`
+- Show rating and play count: \`{}\`
+
+Use \`favorites\` to find rated songs:
+- Five-star songs: \`{"minRating": 5}\`
+- Play favorites by an artist: \`{"artist": "deftones", "play": true}\`
+- Most played favorites: \`{"sort": "plays"}\``;
+              break;
+
+            case "messages":
+            case "channels":
+              helpText = `# Messages Help
+
+MPD clients can talk to each other on named channels. Use \`messages\`:
+
+- List channels: \`{"action": "channels"}\`
+- Subscribe to a channel: \`{"action": "subscribe", "channel": "kitchen"}\`
+- Send a message: \`{"action": "send", "channel": "kitchen", "message": "dinner is ready"}\`
+- Read new messages: \`{"action": "read"}\`
+- Unsubscribe: \`{"action": "unsubscribe", "channel": "kitchen"}\`
+
+Only messages sent after subscribing are received, and reading removes them.`;
+              break;
+
+            case "storage":
+            case "mounts":
+              helpText = `# Storage Help
+
+Use \`storage\` to add network shares or drives to your library:
+
+- List mounts: \`{"action": "list"}\`
+- Find shares on the network: \`{"action": "neighbors"}\`
+- Mount a share: \`{"action": "mount", "path": "nas", "uri": "nfs://nas.local/music"}\`
+- Browse its songs: \`{"action": "browse", "path": "nas"}\`
+- Unmount: \`{"action": "unmount", "path": "nas"}\`
 
-You can view the current playlist contents through the MPD resources.`;
+Mounting needs a database with a cache directory in MPD's configuration, and finding shares needs a neighbor plugin (e.g. smbclient or upnp).`;
+              break;
+
+            case "outputs":
+              helpText = `# Audio Output Help
+
+Use \`outputs\` to choose where music plays. Outputs can be referred to by name or id:
+
+- List outputs: \`{"action": "list"}\`
+- Enable an output: \`{"action": "enable", "output": "Headphones"}\`
+- Disable an output: \`{"action": "disable", "output": "1"}\`
+- Toggle an output: \`{"action": "toggle", "output": "Stream"}\`
+- Play only on one output: \`{"action": "only", "output": "Speakers"}\`
+- Set an output attribute: \`{"action": "set", "output": "Speakers", "attribute": "dop", "value": "1"}\``;
+              break;
+
+            case "partitions":
+              helpText = `# Partition Help
+
+Partitions are independent zones (for example one per room), each with its own queue, playback state and outputs.
+
+Every tool accepts an optional \`partition\` argument:
+- Play in the kitchen: \`resume\` with \`{"partition": "kitchen"}\`
+- Set kitchen volume: \`volume\` with \`{"volume": 40, "partition": "kitchen"}\`
+
+Use \`partitions\` to manage them:
+- List partitions: \`{"action": "list"}\`
+- Create a partition: \`{"action": "create", "name": "kitchen"}\`
+- Delete a partition: \`{"action": "delete", "name": "kitchen"}\`
+- Move an output into a partition: \`{"action": "move_output", "output": "Kitchen Speakers", "partition": "kitchen"}\``;
               break;
 
             case "volume":
@@ -463,7 +1601,7 @@ The volume range is 0-100, where:
               break;
 
             default:
-              helpText = `No specific help available for "${topic}". Try general help or one of these topics: "search", "playback", "playlist", "volume".`;
+              helpText = `No specific help available for "${topic}". Try general help or one of these topics: "search", "browse", "playback", "messages", "storage", "playlist", "ratings", "outputs", "partitions", "volume".`;
           }
         }
 
@@ -474,34 +1612,39 @@ The volume range is 0-100, where:
 
       case "resume": {
         try {
-          await mpdClient.play();
-          const status = await mpdClient.status();
-          const currentSong = await mpdClient.currentSong();
+          await client.play();
+          const status = await client.status();
+          const currentSong = await client.currentSong();
           let songInfo = "No song is playing.";
 
           if (currentSong) {
-            songInfo = `Now playing: ${currentSong.artist || "Unknown Artist"} - ${currentSong.title || currentSong.file}`;
+            songInfo = `Now playing: ${formatTag(currentSong.artist) || "Unknown Artist"} - ${formatTag(currentSong.title) || currentSong.file}`;
             if (currentSong.album) {
-              songInfo += ` (${currentSong.album})`;
+              songInfo += ` (${formatTag(currentSong.album)})`;
             }
           }
 
+          const covers = request.params.arguments?.includeCover
+            ? await coverContent(client, currentSong ? [currentSong] : [])
+            : [];
+
           return {
             content: [
               {
                 type: "text",
                 text: `Music playback resumed. ${songInfo}`,
               },
+              ...covers,
             ],
           };
         } catch (error) {
-          throw new Error(`Error resuming music: ${(error as Error).message}`);
+          throw withContext("Error resuming music", error);
         }
       }
 
       case "pause": {
         try {
-          await mpdClient.pause();
+          await client.pause();
           return {
             content: [
               {
@@ -511,56 +1654,64 @@ The volume range is 0-100, where:
             ],
           };
         } catch (error) {
-          throw new Error(`Error pausing music: ${(error as Error).message}`);
+          throw withContext("Error pausing music", error);
         }
       }
 
       case "next": {
         try {
-          await mpdClient.next();
-          const currentSong = await mpdClient.currentSong();
+          await client.next();
+          const currentSong = await client.currentSong();
           let songInfo = "No next song available.";
 
           if (currentSong) {
-            songInfo = `Now playing: ${currentSong.artist || "Unknown Artist"} - ${currentSong.title || currentSong.file}`;
+            songInfo = `Now playing: ${formatTag(currentSong.artist) || "Unknown Artist"} - ${formatTag(currentSong.title) || currentSong.file}`;
             if (currentSong.album) {
-              songInfo += ` (${currentSong.album})`;
+              songInfo += ` (${formatTag(currentSong.album)})`;
             }
           }
 
+          const covers = request.params.arguments?.includeCover
+            ? await coverContent(client, currentSong ? [currentSong] : [])
+            : [];
+
           return {
             content: [
               {
                 type: "text",
                 text: `Skipped to next song. ${songInfo}`,
               },
+              ...covers,
             ],
           };
         } catch (error) {
-          throw new Error(
-            `Error skipping to next track: ${(error as Error).message}`,
-          );
+          throw withContext("Error skipping to next track", error);
         }
       }
 
       case "play": {
-        const query = String(request.params.arguments?.query);
-        const type = request.params.arguments?.type
-          ? String(request.params.arguments.type)
-          : "any";
+        const args = request.params.arguments || {};
+        const query = args.query !== undefined ? String(args.query) : "";
+        const type = args.type ? String(args.type) : "any";
+        const criteria = buildSearchCriteria(args);
+        const label = criteria ? criteria.description : `"${query}"`;
 
-        if (!query) {
+        if (!query && !criteria) {
           throw new Error("Query is required - specify what you want to play");
         }
 
         try {
-          console.error(`Searching to play: ${type}="${query}"`);
+          console.error(
+            `Searching to play: ${criteria ? label : `${type}="${query}"`}`,
+          );
 
           // First, search for the music using the original query
-          let results = await mpdClient.search(type, query);
+          let results = criteria
+            ? await client.search(criteria.filter)
+            : await client.search(type, query);
 
           // If no results, try a simplified search
-          if (results.length === 0) {
+          if (results.length === 0 && !criteria) {
             // Extract just the title part if it looks like "Artist - Title (Album)"
             const simplifiedQuery =
               query.split(" - ").pop()?.split(" (")[0] || query;
@@ -569,16 +1720,16 @@ The volume range is 0-100, where:
               console.error(
                 `No results, trying simplified query: ${simplifiedQuery}`,
               );
-              results = await mpdClient.search("title", simplifiedQuery);
+              results = await client.search("title", simplifiedQuery);
             }
           }
 
           // If still no results, try a more aggressive search
-          if (results.length === 0 && query.includes(" - ")) {
+          if (results.length === 0 && !criteria && query.includes(" - ")) {
             // Try searching by artist
             const artistPart = query.split(" - ")[0].trim();
             console.error(`No results, trying artist search: ${artistPart}`);
-            results = await mpdClient.search("artist", artistPart);
+            results = await client.search("artist", artistPart);
           }
 
           if (results.length === 0) {
@@ -586,50 +1737,57 @@ The volume range is 0-100, where:
               content: [
                 {
                   type: "text",
-                  text: `Could not find any music matching "${query}". Try a different search term.`,
+                  text: `Could not find any music matching ${label}. Try a different search term.`,
                 },
               ],
             };
           }
 
           // Clear the current playlist
-          await mpdClient.playlistClear();
+          await client.playlistClear();
+
+          // Handle different types of searches: field criteria without a
+          // title play everything that matches, like artist/album searches
+          const playAll = criteria
+            ? args.title === undefined
+            : type === "artist" || type === "album";
 
-          // Handle different types of searches
-          if (type === "artist" || type === "album") {
+          if (playAll) {
             // For artists or albums, add all matching songs to the playlist
             const songsByAlbum = new Map<string, MpdSong[]>();
 
             // Group songs by album
             for (const song of results) {
-              const albumName = song.album || "Unknown Album";
+              const albumName = formatTag(song.album) || "Unknown Album";
               if (!songsByAlbum.has(albumName)) {
                 songsByAlbum.set(albumName, []);
               }
               songsByAlbum.get(albumName)!.push(song);
             }
 
-            // Add all songs to the playlist
+            // Add all songs to the playlist in a single command list
             console.error(`Adding ${results.length} songs to playlist`);
-            for (const song of results) {
-              try {
-                console.error(`Adding song: ${song.file}`);
-                await mpdClient.playlistAdd(song.file);
-              } catch (addError) {
-                console.error(`Error adding song: ${addError}`);
-                // Continue to next song if one fails
-              }
+            try {
+              await client.playlistAddAll(results.map((song) => song.file));
+            } catch (addError) {
+              // Don't leave a half-built playlist behind
+              await client.playlistClear();
+              throw new Error(
+                `Could not add songs to playlist: ${(addError as Error).message}`,
+              );
             }
 
             // Start playing
-            await mpdClient.play(0);
+            await client.play(0);
 
             // Get current song
-            const currentSong = await mpdClient.currentSong();
+            const currentSong = await client.currentSong();
 
             // Prepare info text
             let infoText = "";
-            if (type === "artist") {
+            if (criteria) {
+              infoText = `Now playing ${label}. Added ${results.length} songs from ${songsByAlbum.size} albums to the playlist.`;
+            } else if (type === "artist") {
               infoText = `Now playing music by ${query}. Added ${results.length} songs from ${songsByAlbum.size} albums to the playlist.`;
             } else {
               infoText = `Now playing album matching "${query}". Added ${results.length} songs to the playlist.`;
@@ -637,18 +1795,23 @@ The volume range is 0-100, where:
 
             // Add current song info if available
             if (currentSong) {
-              infoText += `\n\nNow playing: ${currentSong.artist || "Unknown Artist"} - ${currentSong.title || currentSong.file}`;
+              infoText += `\n\nNow playing: ${formatTag(currentSong.artist) || "Unknown Artist"} - ${formatTag(currentSong.title) || currentSong.file}`;
               if (currentSong.album) {
-                infoText += ` (${currentSong.album})`;
+                infoText += ` (${formatTag(currentSong.album)})`;
               }
             }
 
+            const covers = args.includeCover
+              ? await coverContent(client, currentSong ? [currentSong] : [])
+              : [];
+
             return {
               content: [
                 {
                   type: "text",
                   text: infoText,
                 },
+                ...covers,
               ],
             };
           } else {
@@ -658,7 +1821,7 @@ The volume range is 0-100, where:
             // Add the song to the playlist
             console.error(`Adding song to playlist: ${topMatch.file}`);
             try {
-              await mpdClient.playlistAdd(topMatch.file);
+              await client.playlistAdd(topMatch.file);
             } catch (addError) {
               console.error(`Error adding song: ${addError}`);
               throw new Error(
@@ -667,25 +1830,30 @@ The volume range is 0-100, where:
             }
 
             // Start playing
-            await mpdClient.play(0);
+            await client.play(0);
 
             // Format song info
-            let songInfo = `${topMatch.artist || "Unknown Artist"} - ${topMatch.title || topMatch.file}`;
+            let songInfo = `${formatTag(topMatch.artist) || "Unknown Artist"} - ${formatTag(topMatch.title) || topMatch.file}`;
             if (topMatch.album) {
-              songInfo += ` (${topMatch.album})`;
+              songInfo += ` (${formatTag(topMatch.album)})`;
             }
 
+            const covers = args.includeCover
+              ? await coverContent(client, [topMatch])
+              : [];
+
             return {
               content: [
                 {
                   type: "text",
-                  text: `Now playing: ${songInfo}\n\nFound ${results.length} matches total for "${query}".`,
+                  text: `Now playing: ${songInfo}\n\nFound ${results.length} matches total for ${label}.`,
                 },
+                ...covers,
               ],
             };
           }
         } catch (error) {
-          throw new Error(`Error playing music: ${(error as Error).message}`);
+          throw withContext("Error playing music", error);
         }
       }
 
@@ -699,25 +1867,25 @@ The volume range is 0-100, where:
         try {
           switch (action) {
             case "resume":
-              await mpdClient.play(position);
+              await client.play(position);
               break;
             case "pause":
-              await mpdClient.pause();
+              await client.pause();
               break;
             case "stop":
-              await mpdClient.stop();
+              await client.stop();
               break;
             case "next":
-              await mpdClient.next();
+              await client.next();
               break;
             case "previous":
-              await mpdClient.previous();
+              await client.previous();
               break;
             default:
               throw new Error(`Unknown action: ${action}`);
           }
 
-          const status = await mpdClient.status();
+          const status = await client.status();
           return {
             content: [
               {
@@ -727,9 +1895,41 @@ The volume range is 0-100, where:
             ],
           };
         } catch (error) {
-          throw new Error(
-            `Error executing '${action}' command: ${(error as Error).message}`,
+          throw withContext(`Error executing '${action}' command`, error);
+        }
+      }
+
+      case "seek": {
+        const position = String(request.params.arguments?.position ?? "");
+
+        try {
+          const status = await client.status();
+          if (status.state === "stop" || status.elapsed === undefined) {
+            throw new Error("No song is playing");
+          }
+
+          const target = parseSeekPosition(
+            position,
+            status.elapsed,
+            status.duration,
           );
+          await client.seekCur(target);
+
+          const updated = await client.status();
+          const duration =
+            updated.duration !== undefined
+              ? ` / ${formatDuration(updated.duration)}`
+              : "";
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Jumped to ${formatDuration(updated.elapsed ?? target)}${duration}`,
+              },
+            ],
+          };
+        } catch (error) {
+          throw withContext("Error seeking", error);
         }
       }
 
@@ -740,7 +1940,7 @@ The volume range is 0-100, where:
         }
 
         try {
-          await mpdClient.setVolume(volume);
+          await client.setVolume(volume);
           return {
             content: [
               {
@@ -750,33 +1950,42 @@ The volume range is 0-100, where:
             ],
           };
         } catch (error) {
-          throw new Error(`Error setting volume: ${(error as Error).message}`);
+          throw withContext("Error setting volume", error);
         }
       }
 
       case "search": {
-        const query = String(request.params.arguments?.query);
+        const args = request.params.arguments || {};
+        const query = args.query !== undefined ? String(args.query) : "";
         // Type is optional, defaults to "any"
-        const type = request.params.arguments?.type
-          ? String(request.params.arguments.type)
-          : "any";
+        const type = args.type ? String(args.type) : "any";
+        const criteria = buildSearchCriteria(args);
+        const label = criteria ? criteria.description : `"${query}"`;
 
-        if (!query) {
+        if (!query && !criteria) {
           throw new Error("Search query is required");
         }
 
         try {
-          // MPD uses 'any' as a search field
-          const searchType = type;
-          console.error(`Searching for ${searchType}: "${query}"`);
-          const results = await mpdClient.search(searchType, query);
+          let results: MpdSong[];
+          if (criteria) {
+            console.error(`Searching for ${label}`);
+            results = await client.search(criteria.filter, {
+              sort: args.sort !== undefined ? String(args.sort) : undefined,
+            });
+          } else {
+            // MPD uses 'any' as a search field
+            const searchType = type;
+            console.error(`Searching for ${searchType}: "${query}"`);
+            results = await client.search(searchType, query);
+          }
 
           if (results.length === 0) {
             return {
               content: [
                 {
                   type: "text",
-                  text: `No results found for "${query}"`,
+                  text: `No results found for ${label}`,
                 },
               ],
             };
@@ -786,11 +1995,11 @@ The volume range is 0-100, where:
           const topResults = results.slice(0, 15);
 
           // Group results by album if searching by artist
-          if (type === "artist") {
+          if (!criteria && type === "artist") {
             const albums = new Map<string, MpdSong[]>();
 
             for (const song of topResults) {
-              const albumName = song.album || "Unknown Album";
+              const albumName = formatTag(song.album) || "Unknown Album";
               if (!albums.has(albumName)) {
                 albums.set(albumName, []);
               }
@@ -810,11 +2019,15 @@ The volume range is 0-100, where:
             albums.forEach((songs, album) => {
               resultText += `Album: ${album}\n`;
               songs.forEach((song) => {
-                resultText += `- ${song.title || song.file}\n`;
+                resultText += `- ${formatTag(song.title) || song.file}\n`;
+                const details = formatSongDetails(song);
+                if (details) {
+                  resultText += `  ${details}\n`;
+                }
                 resultData.push({
-                  artist: song.artist || "Unknown Artist",
-                  title: song.title || song.file,
-                  album: song.album || "Unknown Album",
+                  artist: formatTag(song.artist) || "Unknown Artist",
+                  title: formatTag(song.title) || song.file,
+                  album: formatTag(song.album) || "Unknown Album",
                   file: song.file,
                   id: song.id,
                   position: song.pos,
@@ -823,14 +2036,17 @@ The volume range is 0-100, where:
               resultText += "\n";
             });
 
-            // Return only text content for now to avoid format issues
+            const covers = args.includeCover
+              ? await coverContent(client, topResults, MAX_SEARCH_COVERS)
+              : [];
+
             return {
-              content: [{ type: "text", text: resultText }],
+              content: [{ type: "text", text: resultText }, ...covers],
             };
           }
 
           // Standard result formatting for other search types
-          let resultText = `Found ${results.length} results for "${query}"${results.length > 15 ? " (showing top 15)" : ""}:\n\n`;
+          let resultText = `Found ${results.length} results for ${label}${results.length > 15 ? " (showing top 15)" : ""}:\n\n`;
           const resultData: Array<{
             artist: string;
             title: string;
@@ -841,21 +2057,25 @@ The volume range is 0-100, where:
           }> = [];
 
           topResults.forEach((song, index) => {
-            resultText += `${index + 1}. ${song.artist || "Unknown Artist"} - ${song.title || song.file}`;
+            resultText += `${index + 1}. ${formatTag(song.artist) || "Unknown Artist"} - ${formatTag(song.title) || song.file}`;
             if (song.album) {
-              resultText += ` (${song.album})`;
+              resultText += ` (${formatTag(song.album)})`;
             }
             resultText += "\n";
+            const details = formatSongDetails(song);
+            if (details) {
+              resultText += `   ${details}\n`;
+            }
 
             // Add a tip for how to play this exact song
             if (index === 0) {
-              resultText += `   To play this song, use: play with {"query": "${song.title}"}\n\n`;
+              resultText += `   To play this song, use: play with {"query": "${formatTag(song.title)}"}\n\n`;
             }
 
             resultData.push({
-              artist: song.artist || "Unknown Artist",
-              title: song.title || song.file,
-              album: song.album || "Unknown Album",
+              artist: formatTag(song.artist) || "Unknown Artist",
+              title: formatTag(song.title) || song.file,
+              album: formatTag(song.album) || "Unknown Album",
               file: song.file,
               id: song.id,
               position: song.pos,
@@ -866,54 +2086,118 @@ The volume range is 0-100, where:
             resultText += `\n...and ${results.length - 15} more matches.`;
           }
 
-          // Return only text content for now to avoid format issues
+          const covers = args.includeCover
+            ? await coverContent(client, topResults, MAX_SEARCH_COVERS)
+            : [];
+
           return {
-            content: [{ type: "text", text: resultText }],
+            content: [{ type: "text", text: resultText }, ...covers],
           };
         } catch (error) {
-          throw new Error(`Error searching music: ${(error as Error).message}`);
+          throw withContext("Error searching music", error);
         }
       }
 
       case "playlist": {
-        const action = String(request.params.arguments?.action);
+        const args = request.params.arguments || {};
+        const action = String(args.action);
         const uriOrQuery =
-          request.params.arguments?.uriOrQuery !== undefined
-            ? String(request.params.arguments.uriOrQuery)
-            : undefined;
+          args.uriOrQuery !== undefined ? String(args.uriOrQuery) : undefined;
         const position =
-          request.params.arguments?.position !== undefined
-            ? Number(request.params.arguments.position)
-            : undefined;
+          args.position !== undefined ? Number(args.position) : undefined;
+        const end = args.end !== undefined ? Number(args.end) : undefined;
+        const to = args.to !== undefined ? Number(args.to) : undefined;
+        const id = args.id !== undefined ? Number(args.id) : undefined;
+        const toId = args.toId !== undefined ? Number(args.toId) : undefined;
+
+        // A position with an end describes a range of songs (end exclusive)
+        const range: number | MpdRange | undefined =
+          position !== undefined && end !== undefined
+            ? [position, end]
+            : position;
+        const rangeText =
+          end !== undefined
+            ? `positions ${position}-${end - 1}`
+            : `position ${position}`;
 
         try {
           switch (action) {
             case "add":
+            case "add_next": {
               if (!uriOrQuery) {
                 throw new Error(
-                  "URI or search query is required for add action",
+                  `URI or search query is required for ${action} action`,
                 );
               }
 
+              let insertAt: number | string | undefined = position;
+              let target =
+                position !== undefined
+                  ? `to playlist at position ${position}`
+                  : "to playlist";
+
+              if (action === "add_next") {
+                // Relative positions need a current song, otherwise append
+                const status = await client.status();
+                insertAt = status.song !== undefined ? "+0" : undefined;
+                target = "to play next";
+              }
+
+              const addSong = async (uri: string): Promise<void> => {
+                if (insertAt !== undefined) {
+                  await client.playlistAddId(uri, insertAt);
+                } else {
+                  await client.playlistAdd(uri);
+                }
+              };
+
               // Try to add the URI directly first
               try {
-                await mpdClient.playlistAdd(uriOrQuery);
+                await addSong(uriOrQuery);
                 return {
                   content: [
-                    { type: "text", text: `Added '${uriOrQuery}' to playlist` },
+                    { type: "text", text: `Added '${uriOrQuery}' ${target}` },
                   ],
                 };
               } catch (error) {
                 // If that fails, try searching for the query
                 try {
-                  const results = await mpdClient.search("any", uriOrQuery);
-                  if (results.length > 0) {
-                    await mpdClient.playlistAdd(results[0].file);
+                  const results = await client.search("any", uriOrQuery);
+                  if (results.length > 0 && args.all) {
+                    // One command list instead of a round trip per song
+                    try {
+                      await client.playlistAddAll(
+                        results.map((song) => song.file),
+                        insertAt,
+                      );
+                    } catch (addError) {
+                      if (!(addError instanceof MpdError)) throw addError;
+                      // The songs before the failing one were added
+                      return {
+                        content: [
+                          {
+                            type: "text",
+                            text: `Added ${addError.index} of ${results.length} songs matching '${uriOrQuery}' ${target}. '${results[addError.index]?.file}' failed: ${addError.message}`,
+                          },
+                        ],
+                        isError: true,
+                      };
+                    }
+                    return {
+                      content: [
+                        {
+                          type: "text",
+                          text: `Added ${results.length} songs matching '${uriOrQuery}' ${target}`,
+                        },
+                      ],
+                    };
+                  } else if (results.length > 0) {
+                    await addSong(results[0].file);
                     return {
                       content: [
                         {
                           type: "text",
-                          text: `Added '${results[0].file}' to playlist`,
+                          text: `Added '${results[0].file}' ${target}`,
                         },
                       ],
                     };
@@ -926,81 +2210,1294 @@ The volume range is 0-100, where:
                   );
                 }
               }
+            }
 
             case "delete":
-              if (position === undefined) {
+              if (range === undefined) {
                 throw new Error("Position is required for delete action");
               }
-              await mpdClient.playlistDelete(position);
+              await client.playlistDelete(range);
               return {
                 content: [
                   {
                     type: "text",
-                    text: `Removed item at position ${position} from playlist`,
+                    text: `Removed items at ${rangeText} from playlist`,
                   },
                 ],
               };
 
+            case "delete_id":
+              if (id === undefined) {
+                throw new Error("Song id is required for delete_id action");
+              }
+              await client.playlistDeleteId(id);
+              return {
+                content: [
+                  { type: "text", text: `Removed song id ${id} from playlist` },
+                ],
+              };
+
             case "clear":
-              await mpdClient.playlistClear();
+              await client.playlistClear();
               return {
                 content: [{ type: "text", text: "Playlist cleared" }],
               };
 
-            default:
-              throw new Error(`Unknown action: ${action}`);
-          }
-        } catch (error) {
-          throw new Error(
-            `Error managing playlist: ${(error as Error).message}`,
-          );
-        }
-      }
-
-      case "settings": {
-        const repeat =
-          request.params.arguments?.repeat !== undefined
-            ? Boolean(request.params.arguments.repeat)
-            : undefined;
-        const random =
-          request.params.arguments?.random !== undefined
-            ? Boolean(request.params.arguments.random)
-            : undefined;
-        const single =
-          request.params.arguments?.single !== undefined
-            ? Boolean(request.params.arguments.single)
-            : undefined;
-        const consume =
-          request.params.arguments?.consume !== undefined
-            ? Boolean(request.params.arguments.consume)
-            : undefined;
+            case "move":
+              if (range === undefined || to === undefined) {
+                throw new Error(
+                  "Position and target position (to) are required for move action",
+                );
+              }
+              await client.playlistMove(range, to);
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: `Moved items at ${rangeText} to position ${to}`,
+                  },
+                ],
+              };
+
+            case "move_id":
+              if (id === undefined || to === undefined) {
+                throw new Error(
+                  "Song id and target position (to) are required for move_id action",
+                );
+              }
+              await client.playlistMoveId(id, to);
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: `Moved song id ${id} to position ${to}`,
+                  },
+                ],
+              };
+
+            case "swap":
+              if (position === undefined || to === undefined) {
+                throw new Error(
+                  "Position and other position (to) are required for swap action",
+                );
+              }
+              await client.playlistSwap(position, to);
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: `Swapped songs at positions ${position} and ${to}`,
+                  },
+                ],
+              };
+
+            case "swap_id":
+              if (id === undefined || toId === undefined) {
+                throw new Error(
+                  "Song id and other song id (toId) are required for swap_id action",
+                );
+              }
+              await client.playlistSwapId(id, toId);
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: `Swapped song ids ${id} and ${toId}`,
+                  },
+                ],
+              };
+
+            case "shuffle":
+              if (position !== undefined) {
+                await client.playlistShuffle([position, end]);
+              } else {
+                await client.playlistShuffle();
+              }
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text:
+                      position !== undefined
+                        ? `Shuffled playlist from position ${position}${end !== undefined ? ` to ${end - 1}` : ""}`
+                        : "Playlist shuffled",
+                  },
+                ],
+              };
+
+            case "play_id": {
+              if (id === undefined) {
+                throw new Error("Song id is required for play_id action");
+              }
+              await client.playId(id);
+              const currentSong = await client.currentSong();
+              let songInfo = "";
+              if (currentSong) {
+                songInfo = ` Now playing: ${formatTag(currentSong.artist) || "Unknown Artist"} - ${formatTag(currentSong.title) || currentSong.file}`;
+              }
+              return {
+                content: [
+                  { type: "text", text: `Playing song id ${id}.${songInfo}` },
+                ],
+              };
+            }
+
+            case "priority": {
+              if (args.priority === undefined) {
+                throw new Error("Priority is required for priority action");
+              }
+              const priority = Number(args.priority);
+
+              if (id !== undefined) {
+                await client.setPriorityId(priority, [id]);
+                return {
+                  content: [
+                    {
+                      type: "text",
+                      text: `Set priority ${priority} for song id ${id}`,
+                    },
+                  ],
+                };
+              }
+
+              if (position === undefined) {
+                throw new Error(
+                  "Song id or position is required for priority action",
+                );
+              }
+              await client.setPriority(priority, [
+                [position, end ?? position + 1],
+              ]);
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: `Set priority ${priority} for songs at ${rangeText}`,
+                  },
+                ],
+              };
+            }
+
+            case "changes": {
+              const mirror = getQueueMirror(client);
+              await mirror.sync();
+              const previous = reportedQueues.get(mirror);
+              reportedQueues.set(mirror, mirror.songs);
+
+              const summary = `The playlist has ${mirror.songs.length} songs (version ${mirror.version})`;
+              if (!previous) {
+                return {
+                  content: [
+                    {
+                      type: "text",
+                      text: `${summary}. Changes will be reported from now on.`,
+                    },
+                  ],
+                };
+              }
+
+              const { added, removed, moved } = diffQueues(
+                previous,
+                mirror.songs,
+              );
+              if (added.length + removed.length + moved.length === 0) {
+                return {
+                  content: [
+                    { type: "text", text: `${summary}. Nothing changed.` },
+                  ],
+                };
+              }
+
+              const name = (song: MpdSong) =>
+                `${formatTag(song.artist) || "Unknown Artist"} - ${formatTag(song.title) || song.file}`;
+              let resultText = `${summary}. Since you last asked:\n`;
+              if (added.length > 0) {
+                resultText += `\nAdded (${added.length}):\n`;
+                for (const song of added) {
+                  resultText += `- ${song.pos}: ${name(song)} (id ${song.id})\n`;
+                }
+              }
+              if (removed.length > 0) {
+                resultText += `\nRemoved (${removed.length}):\n`;
+                for (const song of removed) {
+                  resultText += `- ${name(song)} (id ${song.id})\n`;
+                }
+              }
+              if (moved.length > 0) {
+                resultText += `\nMoved (${moved.length}):\n`;
+                for (const { song, from, to } of moved) {
+                  resultText += `- ${name(song)}: ${from} -> ${to}\n`;
+                }
+              }
+
+              return {
+                content: [{ type: "text", text: resultText }],
+              };
+            }
+
+            default:
+              throw new Error(`Unknown action: ${action}`);
+          }
+        } catch (error) {
+          throw withContext("Error managing playlist", error);
+        }
+      }
+
+      case "stored_playlist": {
+        const args = request.params.arguments || {};
+        const action = String(args.action);
+        const name = args.name !== undefined ? String(args.name) : undefined;
+
+        try {
+          if (action === "list") {
+            const playlists = await client.listPlaylists();
+            if (playlists.length === 0) {
+              return {
+                content: [{ type: "text", text: "No saved playlists" }],
+              };
+            }
+
+            let resultText = `Saved playlists (${playlists.length}):\n\n`;
+            playlists.forEach((item) => {
+              resultText += `- ${item.playlist}\n`;
+            });
+            return {
+              content: [{ type: "text", text: resultText }],
+            };
+          }
+
+          if (!name) {
+            throw new Error(`Playlist name is required for ${action} action`);
+          }
+
+          switch (action) {
+            case "show": {
+              const songs = await client.listPlaylistInfo(name);
+              let resultText = `Playlist '${name}' has ${songs.length} songs:\n\n`;
+              songs.forEach((song, index) => {
+                resultText += `${index}. ${formatTag(song.artist) || "Unknown Artist"} - ${formatTag(song.title) || song.file}\n`;
+              });
+              return {
+                content: [{ type: "text", text: resultText }],
+              };
+            }
+
+            case "load":
+              await client.loadPlaylist(name);
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: `Loaded playlist '${name}' into the queue`,
+                  },
+                ],
+              };
+
+            case "save":
+              await client.savePlaylist(name);
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: `Saved the current queue as '${name}'`,
+                  },
+                ],
+              };
+
+            case "rename": {
+              if (args.newName === undefined) {
+                throw new Error("New name is required for rename action");
+              }
+              const newName = String(args.newName);
+              await client.renamePlaylist(name, newName);
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: `Renamed playlist '${name}' to '${newName}'`,
+                  },
+                ],
+              };
+            }
+
+            case "delete":
+              await client.removePlaylist(name);
+              return {
+                content: [{ type: "text", text: `Deleted playlist '${name}'` }],
+              };
+
+            case "add": {
+              if (args.uri === undefined) {
+                throw new Error("URI is required for add action");
+              }
+              const uri = String(args.uri);
+              await client.storedPlaylistAdd(name, uri);
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: `Added '${uri}' to playlist '${name}'`,
+                  },
+                ],
+              };
+            }
+
+            case "remove": {
+              if (args.position === undefined) {
+                throw new Error("Position is required for remove action");
+              }
+              const position = Number(args.position);
+              await client.storedPlaylistDelete(name, position);
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: `Removed item at position ${position} from playlist '${name}'`,
+                  },
+                ],
+              };
+            }
+
+            case "move": {
+              if (args.from === undefined || args.to === undefined) {
+                throw new Error(
+                  "From and to positions are required for move action",
+                );
+              }
+              const from = Number(args.from);
+              const to = Number(args.to);
+              await client.storedPlaylistMove(name, from, to);
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: `Moved item from position ${from} to ${to} in playlist '${name}'`,
+                  },
+                ],
+              };
+            }
+
+            case "clear":
+              await client.storedPlaylistClear(name);
+              return {
+                content: [{ type: "text", text: `Cleared playlist '${name}'` }],
+              };
+
+            default:
+              throw new Error(`Unknown action: ${action}`);
+          }
+        } catch (error) {
+          throw withContext("Error managing saved playlist", error);
+        }
+      }
+
+      case "outputs": {
+        const args = request.params.arguments || {};
+        const action = String(args.action);
+
+        try {
+          if (action === "list") {
+            const outputs = await client.outputs();
+            if (outputs.length === 0) {
+              return {
+                content: [
+                  { type: "text", text: "No audio outputs configured" },
+                ],
+              };
+            }
+
+            let resultText = `Audio outputs:\n\n`;
+            outputs.forEach((output) => {
+              resultText += `${output.id}. ${output.name}${output.plugin ? ` (${output.plugin})` : ""}: ${output.enabled ? "enabled" : "disabled"}\n`;
+            });
+            return {
+              content: [{ type: "text", text: resultText }],
+            };
+          }
+
+          if (args.output === undefined) {
+            throw new Error(
+              `Output name or id is required for ${action} action`,
+            );
+          }
+          const output = await resolveOutput(client, String(args.output));
+
+          switch (action) {
+            case "enable":
+              await client.enableOutput(output.id);
+              break;
+            case "disable":
+              await client.disableOutput(output.id);
+              break;
+            case "toggle":
+              await client.toggleOutput(output.id);
+              break;
+            case "only": {
+              await client.enableOutput(output.id);
+              const outputs = await client.outputs();
+              for (const other of outputs) {
+                if (other.id !== output.id && other.enabled) {
+                  await client.disableOutput(other.id);
+                }
+              }
+              break;
+            }
+            case "set": {
+              if (args.attribute === undefined || args.value === undefined) {
+                throw new Error(
+                  "Attribute and value are required for set action",
+                );
+              }
+              const attribute = String(args.attribute);
+              const value = String(args.value);
+              await client.outputSet(output.id, attribute, value);
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: `Set ${attribute}=${value} on output '${output.name}'`,
+                  },
+                ],
+              };
+            }
+            default:
+              throw new Error(`Unknown action: ${action}`);
+          }
+
+          const updated = (await client.outputs()).find(
+            (item) => item.id === output.id,
+          );
+          const enabled = updated ? updated.enabled : output.enabled;
+          return {
+            content: [
+              {
+                type: "text",
+                text:
+                  action === "only"
+                    ? `Now playing only on output '${output.name}'`
+                    : `Output '${output.name}' is now ${enabled ? "enabled" : "disabled"}`,
+              },
+            ],
+          };
+        } catch (error) {
+          throw withContext("Error managing outputs", error);
+        }
+      }
+
+      case "partitions": {
+        const args = request.params.arguments || {};
+        const action = String(args.action);
+        const name = args.name !== undefined ? String(args.name) : undefined;
+
+        try {
+          switch (action) {
+            case "list": {
+              const names = await mpdClient.listPartitions();
+              let resultText = `Partitions:\n\n`;
+              for (const item of names) {
+                resultText += `- ${item}${item === DEFAULT_PARTITION ? " (default)" : ""}\n`;
+              }
+              return {
+                content: [{ type: "text", text: resultText }],
+              };
+            }
+
+            case "create":
+              if (!name) {
+                throw new Error("Partition name is required for create action");
+              }
+              await mpdClient.newPartition(name);
+              return {
+                content: [
+                  { type: "text", text: `Created partition '${name}'` },
+                ],
+              };
+
+            case "delete":
+              if (!name) {
+                throw new Error("Partition name is required for delete action");
+              }
+              if (name === DEFAULT_PARTITION) {
+                throw new Error("The default partition cannot be deleted");
+              }
+              // MPD refuses to delete partitions that still have clients
+              await releasePartitionClient(name);
+              await mpdClient.deletePartition(name);
+              return {
+                content: [
+                  { type: "text", text: `Deleted partition '${name}'` },
+                ],
+              };
+
+            case "move_output": {
+              if (args.output === undefined) {
+                throw new Error(
+                  "Output name is required for move_output action",
+                );
+              }
+              const output = String(args.output);
+              const target = await getPartitionClient(partition);
+              await target.moveOutput(output);
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: `Moved output '${output}' to partition '${partition || DEFAULT_PARTITION}'`,
+                  },
+                ],
+              };
+            }
+
+            default:
+              throw new Error(`Unknown action: ${action}`);
+          }
+        } catch (error) {
+          throw withContext("Error managing partitions", error);
+        }
+      }
+
+      case "storage": {
+        const args = request.params.arguments || {};
+        const action = String(args.action);
+        const path = args.path !== undefined ? String(args.path) : undefined;
+
+        try {
+          switch (action) {
+            case "list": {
+              const mounts = await client.listMounts();
+              let resultText = `Mounted storage:\n\n`;
+              for (const item of mounts) {
+                resultText += `- ${item.mount || "(music directory)"}: ${item.storage}\n`;
+              }
+              return {
+                content: [{ type: "text", text: resultText }],
+              };
+            }
+
+            case "neighbors": {
+              const neighbors = await client.listNeighbors();
+              if (neighbors.length === 0) {
+                return {
+                  content: [
+                    { type: "text", text: "No storage found on the network" },
+                  ],
+                };
+              }
+              let resultText = `Storage found on the network:\n\n`;
+              for (const item of neighbors) {
+                resultText += `- ${item.name}: ${item.uri}\n`;
+              }
+              return {
+                content: [{ type: "text", text: resultText }],
+              };
+            }
+
+            case "mount": {
+              if (!path || args.uri === undefined) {
+                throw new Error("Path and uri are required for mount action");
+              }
+              const uri = String(args.uri);
+              await client.mount(path, uri);
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: `Mounted ${uri} at '${path}'. Use library_update with {"path": "${path}"} if its songs don't show up.`,
+                  },
+                ],
+              };
+            }
+
+            case "unmount":
+              if (!path) {
+                throw new Error("Path is required for unmount action");
+              }
+              await client.unmount(path);
+              return {
+                content: [{ type: "text", text: `Unmounted '${path}'` }],
+              };
+
+            case "browse": {
+              if (!path) {
+                throw new Error("Path is required for browse action");
+              }
+              const limit = args.limit !== undefined ? Number(args.limit) : 50;
+              const songs = await client.listAllInfo(path);
+              if (songs.length === 0) {
+                return {
+                  content: [
+                    { type: "text", text: `No songs found in '${path}'` },
+                  ],
+                };
+              }
+
+              let resultText = `Found ${songs.length} songs in '${path}'${songs.length > limit ? ` (showing ${limit})` : ""}:\n\n`;
+              songs.slice(0, limit).forEach((song, index) => {
+                resultText += `${index + 1}. ${formatTag(song.artist) || "Unknown Artist"} - ${formatTag(song.title) || song.file}`;
+                if (song.album) {
+                  resultText += ` (${formatTag(song.album)})`;
+                }
+                resultText += `\n   ${song.file}\n`;
+              });
+              return {
+                content: [{ type: "text", text: resultText }],
+              };
+            }
+
+            default:
+              throw new Error(`Unknown action: ${action}`);
+          }
+        } catch (error) {
+          throw withContext("Error managing storage", error);
+        }
+      }
+
+      case "messages": {
+        const args = request.params.arguments || {};
+        const action = String(args.action);
+        const channel =
+          args.channel !== undefined ? String(args.channel) : undefined;
+
+        try {
+          switch (action) {
+            case "channels": {
+              const channels = await client.channels();
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text:
+                      channels.length > 0
+                        ? `Channels with subscribers: ${channels.join(", ")}`
+                        : "No channels have subscribers",
+                  },
+                ],
+              };
+            }
+
+            case "subscribe":
+              if (!channel) {
+                throw new Error("Channel is required for subscribe action");
+              }
+              await client.subscribe(channel);
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: `Subscribed to '${channel}'. Use the read action to get its messages.`,
+                  },
+                ],
+              };
+
+            case "unsubscribe":
+              if (!channel) {
+                throw new Error("Channel is required for unsubscribe action");
+              }
+              await client.unsubscribe(channel);
+              return {
+                content: [
+                  { type: "text", text: `Unsubscribed from '${channel}'` },
+                ],
+              };
+
+            case "send": {
+              if (!channel || args.message === undefined) {
+                throw new Error(
+                  "Channel and message are required for send action",
+                );
+              }
+              await client.sendMessage(channel, String(args.message));
+              return {
+                content: [
+                  { type: "text", text: `Sent message to '${channel}'` },
+                ],
+              };
+            }
+
+            case "read": {
+              const messages = await client.readMessages();
+              if (messages.length === 0) {
+                return {
+                  content: [{ type: "text", text: "No new messages" }],
+                };
+              }
+              let resultText = `${messages.length} new messages:\n\n`;
+              for (const item of messages) {
+                resultText += `[${item.channel}] ${item.message}\n`;
+              }
+              return {
+                content: [{ type: "text", text: resultText }],
+              };
+            }
+
+            default:
+              throw new Error(`Unknown action: ${action}`);
+          }
+        } catch (error) {
+          throw withContext("Error handling messages", error);
+        }
+      }
+
+      case "song_info": {
+        const args = request.params.arguments || {};
+
+        try {
+          let uri: string;
+          if (args.uri !== undefined) {
+            uri = String(args.uri);
+          } else if (args.position !== undefined) {
+            const position = Number(args.position);
+            const [song] = await client.playlistInfo([position, position + 1]);
+            if (!song) {
+              throw new Error(`No song at playlist position ${position}`);
+            }
+            uri = song.file;
+          } else {
+            const song = await client.currentSong();
+            if (!song) {
+              throw new Error("No song is playing - specify a uri or position");
+            }
+            uri = song.file;
+          }
+
+          // Streams and files outside the database have no entry there
+          const song = await client.songInfo(uri);
+
+          let resultText = song
+            ? `${formatTag(song.artist) || "Unknown Artist"} - ${formatTag(song.title) || uri}\nFile: ${uri}\n`
+            : `File: ${uri} (not in the database)\n`;
+
+          if (song) {
+            resultText += `\nTags:\n`;
+            for (const field of Object.values(SONG_TAGS)) {
+              const value = formatTag(song[field], "; ");
+              if (value) {
+                resultText += `- ${field}: ${value}\n`;
+              }
+            }
+
+            resultText += `\nFile info:\n`;
+            if (song.format) {
+              resultText += `- Audio format: ${describeAudioFormat(song.format)}\n`;
+            }
+            if (song.duration !== undefined) {
+              resultText += `- Duration: ${formatDuration(song.duration)} (${song.duration}s)\n`;
+            }
+            if (song.lastModified) {
+              resultText += `- Last modified: ${song.lastModified}\n`;
+            }
+            if (song.added) {
+              resultText += `- Added: ${song.added}\n`;
+            }
+          }
+
+          // The other details may be unavailable for this file or server,
+          // which shouldn't hide what is known
+          try {
+            const comments = await client.readComments(uri);
+            const names = Object.keys(comments);
+            resultText += `\nComments in the file${names.length === 0 ? ": none" : ":"}\n`;
+            for (const name of names) {
+              resultText += `- ${name}: ${formatTag(comments[name], "; ")}\n`;
+            }
+          } catch (error) {
+            resultText += `\nComments: unavailable (${(error as Error).message})\n`;
+          }
+
+          try {
+            const stickers = await client.stickerList("song", uri);
+            const names = Object.keys(stickers);
+            resultText += `\nStickers${names.length === 0 ? ": none" : ":"}\n`;
+            for (const name of names) {
+              resultText += `- ${name}: ${stickers[name]}\n`;
+            }
+          } catch (error) {
+            resultText += `\nStickers: unavailable (${(error as Error).message})\n`;
+          }
+
+          if (args.fingerprint) {
+            try {
+              const fingerprint = await client.getFingerprint(uri);
+              resultText += `\nChromaprint fingerprint:\n${fingerprint}\n`;
+            } catch (error) {
+              resultText += `\nChromaprint fingerprint: unavailable (${(error as Error).message})\n`;
+            }
+          }
+
+          return {
+            content: [{ type: "text", text: resultText }],
+          };
+        } catch (error) {
+          throw withContext("Error reading song info", error);
+        }
+      }
+
+      case "rate_song": {
+        const args = request.params.arguments || {};
+
+        try {
+          let song: MpdSong | null;
+          if (args.uri !== undefined) {
+            song = { file: String(args.uri) };
+          } else if (args.position !== undefined) {
+            const position = Number(args.position);
+            [song = null] = await client.playlistInfo([position, position + 1]);
+            if (!song) {
+              throw new Error(`No song at playlist position ${position}`);
+            }
+          } else {
+            song = await client.currentSong();
+            if (!song) {
+              throw new Error("No song is playing - specify a uri or position");
+            }
+          }
+
+          const songName = song.title
+            ? `${formatTag(song.artist) || "Unknown Artist"} - ${formatTag(song.title)}`
+            : song.file;
+
+          if (args.rating === undefined) {
+            const stickers = await client.stickerList("song", song.file);
+            const rating = stickers[RATING_STICKER];
+            const plays = stickers[PLAY_COUNT_STICKER] || "0";
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `${songName}: ${rating !== undefined ? `${stickerToStars(rating)}/5 stars` : "not rated"}, played ${plays} times`,
+                },
+              ],
+            };
+          }
+
+          const rating = Math.round(Number(args.rating));
+          if (isNaN(rating) || rating < 0 || rating > 5) {
+            throw new Error("Rating must be a number between 0 and 5");
+          }
+
+          if (rating === 0) {
+            if (await client.stickerGet("song", song.file, RATING_STICKER)) {
+              await client.stickerDelete("song", song.file, RATING_STICKER);
+            }
+            return {
+              content: [
+                { type: "text", text: `Removed rating from ${songName}` },
+              ],
+            };
+          }
+
+          await client.stickerSet(
+            "song",
+            song.file,
+            RATING_STICKER,
+            String(rating * 2),
+          );
+          return {
+            content: [
+              { type: "text", text: `Rated ${songName} ${rating}/5 stars` },
+            ],
+          };
+        } catch (error) {
+          throw withContext("Error rating song", error);
+        }
+      }
+
+      case "favorites": {
+        const args = request.params.arguments || {};
+        const minRating =
+          args.minRating !== undefined ? Number(args.minRating) : 4;
+        const sort = args.sort === "plays" ? "plays" : "rating";
+        const limit = args.limit !== undefined ? Number(args.limit) : 25;
+        const criteria = buildSearchCriteria(args);
+
+        try {
+          const ratings = new Map<string, number>();
+          for (const match of await client.stickerFind(
+            "song",
+            "",
+            RATING_STICKER,
+          )) {
+            const stars = stickerToStars(match.value);
+            if (stars >= minRating) {
+              ratings.set(match.uri, stars);
+            }
+          }
+
+          const plays = new Map<string, number>();
+          for (const match of await client.stickerFind(
+            "song",
+            "",
+            PLAY_COUNT_STICKER,
+          )) {
+            plays.set(match.uri, parseInt(match.value, 10) || 0);
+          }
+
+          const byPreference = (a: string, b: string): number => {
+            const ratingOrder = (ratings.get(b) || 0) - (ratings.get(a) || 0);
+            const playOrder = (plays.get(b) || 0) - (plays.get(a) || 0);
+            return sort === "plays"
+              ? playOrder || ratingOrder
+              : ratingOrder || playOrder;
+          };
+
+          let songs: MpdSong[];
+          if (criteria) {
+            // Rated songs among the ones matching the criteria
+            songs = (await client.search(criteria.filter))
+              .filter((song) => ratings.has(song.file))
+              .sort((a, b) => byPreference(a.file, b.file));
+          } else {
+            // Look up tags only for the songs we are going to show or play
+            const files = Array.from(ratings.keys()).sort(byPreference);
+            const shown = args.play ? files : files.slice(0, limit);
+            const found = await client.songInfoAll(shown);
+            songs = shown.map((file, index) => found[index] || { file });
+          }
+
+          const label = criteria ? ` matching ${criteria.description}` : "";
+          if (songs.length === 0) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `No songs rated ${minRating} stars or more${label}. Use rate_song to rate songs.`,
+                },
+              ],
+            };
+          }
+
+          if (args.play) {
+            await client.playlistClear();
+            await client.playlistAddAll(songs.map((song) => song.file));
+            await client.play(0);
+          }
+
+          let resultText = args.play
+            ? `Now playing ${songs.length} songs rated ${minRating}+ stars${label}:\n\n`
+            : `Found ${songs.length} songs rated ${minRating}+ stars${label}${songs.length > limit ? ` (showing top ${limit})` : ""}:\n\n`;
+          songs.slice(0, limit).forEach((song, index) => {
+            resultText += `${index + 1}. ${formatTag(song.artist) || "Unknown Artist"} - ${formatTag(song.title) || song.file}`;
+            if (song.album) {
+              resultText += ` (${formatTag(song.album)})`;
+            }
+            resultText += ` [${ratings.get(song.file)}/5, played ${plays.get(song.file) || 0} times]\n`;
+          });
+
+          return {
+            content: [{ type: "text", text: resultText }],
+          };
+        } catch (error) {
+          throw withContext("Error finding favorites", error);
+        }
+      }
+
+      case "browse_artists":
+      case "browse_albums":
+      case "browse_genres": {
+        const args = request.params.arguments || {};
+        const { tag, label } = BROWSE_TAGS[request.params.name];
+        const sort = args.sort ? String(args.sort) : "name";
+        const limit = args.limit !== undefined ? Number(args.limit) : 50;
+        const criteria = buildSearchCriteria(args);
+        const matching = criteria ? ` matching ${criteria.description}` : "";
+
+        try {
+          // MPD aggregates per tag value, so no songs have to be transferred
+          const counts = await client.count(criteria?.filter, tag);
+          if (counts.length === 0) {
+            return {
+              content: [{ type: "text", text: `No ${label} found${matching}` }],
+            };
+          }
+
+          counts.sort((a, b) => {
+            if (sort === "songs") return b.songs - a.songs;
+            if (sort === "playtime") return b.playtime - a.playtime;
+            return (a.group || "").localeCompare(b.group || "");
+          });
+
+          const songs = counts.reduce((total, count) => total + count.songs, 0);
+          const playtime = counts.reduce(
+            (total, count) => total + count.playtime,
+            0,
+          );
+
+          let resultText = `Found ${counts.length} ${label}${matching} (${songs} songs, ${formatDuration(playtime)} total)${counts.length > limit ? `, showing ${limit}` : ""}:\n\n`;
+          counts.slice(0, limit).forEach((count, index) => {
+            resultText += `${index + 1}. ${count.group || "Unknown"} - ${count.songs} songs, ${formatDuration(count.playtime)}\n`;
+          });
+
+          return {
+            content: [{ type: "text", text: resultText }],
+          };
+        } catch (error) {
+          throw withContext(`Error browsing ${label}`, error);
+        }
+      }
+
+      case "browse": {
+        const args = request.params.arguments || {};
+        const path = args.path
+          ? String(args.path).replace(/^\/+/, "").replace(/\/+$/, "")
+          : "";
+        const limit = args.limit !== undefined ? Number(args.limit) : 100;
+        const folder = path ? `'${path}'` : "the top level";
+        const heading = path ? `Folder '${path}'` : "Top level";
+
+        try {
+          // listfiles reports every file, lsinfo only songs but with tags
+          const entries = args.allFiles
+            ? await client.listFiles(path)
+            : await client.lsInfo(path);
+          if (entries.length === 0) {
+            return {
+              content: [{ type: "text", text: `Nothing found in ${folder}` }],
+            };
+          }
+
+          const directories = entries.filter(
+            (entry) => entry.type === "directory",
+          );
+          const files = entries.filter(
+            (entry): entry is MpdDirectoryEntryFile => entry.type === "file",
+          );
+          const playlists = entries.filter(
+            (entry) => entry.type === "playlist",
+          );
+
+          let resultText = `${heading}: ${directories.length} folders, ${files.length} files, ${playlists.length} playlists${entries.length > limit ? ` (showing ${limit})` : ""}\n`;
+          let shown = 0;
+          const section = (title: string, lines: string[]) => {
+            const visible = lines.slice(0, Math.max(limit - shown, 0));
+            shown += visible.length;
+            if (visible.length > 0) {
+              resultText += `\n${title}:\n${visible.join("\n")}\n`;
+            }
+          };
+
+          // listfiles names entries relative to the folder, lsinfo gives
+          // the full path
+          const name = (entryPath: string) =>
+            entryPath.slice(entryPath.lastIndexOf("/") + 1);
+
+          section(
+            "Folders",
+            directories.map((entry) => `- ${name(entry.path)}/`),
+          );
+          section(
+            "Files",
+            files.map((entry) => {
+              const song = entry.song;
+              if (song && (song.title || song.artist)) {
+                return `- ${name(entry.path)}: ${formatTag(song.artist) || "Unknown Artist"} - ${formatTag(song.title) || name(entry.path)}${song.duration !== undefined ? ` (${formatDuration(song.duration)})` : ""}`;
+              }
+              return `- ${name(entry.path)}${entry.size !== undefined ? ` (${entry.size} bytes)` : ""}`;
+            }),
+          );
+          section(
+            "Playlists",
+            playlists.map((entry) => `- ${name(entry.path)}`),
+          );
+
+          resultText += `\nOpen a folder with browse and its path${path ? `, e.g. {"path": "${path}/<folder>"}` : ""}. Songs are added with their full path relative to the music directory.`;
+
+          return {
+            content: [{ type: "text", text: resultText }],
+          };
+        } catch (error) {
+          throw withContext(`Error browsing ${folder}`, error);
+        }
+      }
+
+      case "library_update": {
+        const args = request.params.arguments || {};
+        const path = args.path ? String(args.path) : undefined;
+        const timeout =
+          args.timeout !== undefined
+            ? Number(args.timeout)
+            : DEFAULT_UPDATE_TIMEOUT;
+        const target = path ? `'${path}'` : "the library";
+
+        try {
+          const before = args.wait ? await client.stats() : undefined;
+          const jobId = args.rescan
+            ? await client.rescan(path)
+            : await client.update(path);
+
+          if (!before) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Started ${args.rescan ? "rescan" : "update"} of ${target} (job ${jobId}).`,
+                },
+              ],
+            };
+          }
+
+          const finished = await waitForDatabaseUpdate(
+            client,
+            jobId,
+            timeout * 1000,
+          );
+          if (!finished) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Update of ${target} (job ${jobId}) is still running after ${timeout} seconds.`,
+                },
+              ],
+            };
+          }
+
+          const after = await client.stats();
+          const change = (name: string, from: number, to: number): string => {
+            const diff = to - from;
+            return `${name}: ${from} → ${to} (${diff >= 0 ? "+" : ""}${diff})`;
+          };
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Update of ${target} finished (job ${jobId}).\n\n${[
+                  change("Songs", before.songs, after.songs),
+                  change("Albums", before.albums, after.albums),
+                  change("Artists", before.artists, after.artists),
+                ].join("\n")}`,
+              },
+            ],
+          };
+        } catch (error) {
+          throw withContext("Error updating the library", error);
+        }
+      }
+
+      case "settings": {
+        const repeat =
+          request.params.arguments?.repeat !== undefined
+            ? Boolean(request.params.arguments.repeat)
+            : undefined;
+        const random =
+          request.params.arguments?.random !== undefined
+            ? Boolean(request.params.arguments.random)
+            : undefined;
+        const single =
+          request.params.arguments?.single !== undefined
+            ? Boolean(request.params.arguments.single)
+            : undefined;
+        const consume =
+          request.params.arguments?.consume !== undefined
+            ? Boolean(request.params.arguments.consume)
+            : undefined;
+        const crossfade =
+          request.params.arguments?.crossfade !== undefined
+            ? Number(request.params.arguments.crossfade)
+            : undefined;
+        const mixrampdb =
+          request.params.arguments?.mixrampdb !== undefined
+            ? Number(request.params.arguments.mixrampdb)
+            : undefined;
+        const mixrampdelay =
+          request.params.arguments?.mixrampdelay !== undefined
+            ? Number(request.params.arguments.mixrampdelay)
+            : undefined;
+        const replayGain =
+          request.params.arguments?.replayGain !== undefined
+            ? String(request.params.arguments.replayGain)
+            : undefined;
+
+        if (
+          crossfade !== undefined &&
+          (!Number.isFinite(crossfade) || crossfade < 0)
+        ) {
+          throw new Error("Crossfade must be a number of seconds (0 or more)");
+        }
+        if (mixrampdb !== undefined && !Number.isFinite(mixrampdb)) {
+          throw new Error("MixRamp threshold must be a number of decibels");
+        }
+        if (mixrampdelay !== undefined && !Number.isFinite(mixrampdelay)) {
+          throw new Error(
+            "MixRamp delay must be a number of seconds (negative turns it off)",
+          );
+        }
+        if (
+          replayGain !== undefined &&
+          !["off", "track", "album", "auto"].includes(replayGain)
+        ) {
+          throw new Error(
+            "ReplayGain mode must be one of: off, track, album, auto",
+          );
+        }
 
         try {
           const changes: string[] = [];
 
           if (repeat !== undefined) {
-            await mpdClient.setRepeat(repeat);
+            await client.setRepeat(repeat);
             changes.push(`repeat: ${repeat ? "on" : "off"}`);
           }
 
           if (random !== undefined) {
-            await mpdClient.setRandom(random);
+            await client.setRandom(random);
             changes.push(`random: ${random ? "on" : "off"}`);
           }
 
           if (single !== undefined) {
-            await mpdClient.setSingle(single);
+            await client.setSingle(single);
             changes.push(`single: ${single ? "on" : "off"}`);
           }
 
           if (consume !== undefined) {
-            await mpdClient.setConsume(consume);
+            await client.setConsume(consume);
             changes.push(`consume: ${consume ? "on" : "off"}`);
           }
 
+          if (crossfade !== undefined) {
+            await client.setCrossfade(crossfade);
+            changes.push(
+              `crossfade: ${crossfade > 0 ? `${Math.round(crossfade)}s` : "off"}`,
+            );
+          }
+
+          if (mixrampdb !== undefined) {
+            await client.setMixrampDb(mixrampdb);
+            changes.push(`MixRamp threshold: ${mixrampdb} dB`);
+          }
+
+          if (mixrampdelay !== undefined) {
+            await client.setMixrampDelay(mixrampdelay);
+            changes.push(
+              `MixRamp delay: ${mixrampdelay >= 0 ? `${mixrampdelay}s` : "off"}`,
+            );
+          }
+
+          if (replayGain !== undefined) {
+            await client.setReplayGainMode(replayGain as MpdReplayGainMode);
+            changes.push(`ReplayGain: ${replayGain}`);
+          }
+
           if (changes.length === 0) {
+            const status = await client.status();
+            const replayGainMode = await client.replayGainStatus();
+            const onOff = (value: boolean) => (value ? "on" : "off");
+
             return {
-              content: [{ type: "text", text: "No options were changed" }],
+              content: [
+                {
+                  type: "text",
+                  text: `No options were changed. Current playback options: ${[
+                    `repeat: ${onOff(status.repeat)}`,
+                    `random: ${onOff(status.random)}`,
+                    `single: ${onOff(status.single)}`,
+                    `consume: ${onOff(status.consume)}`,
+                    `crossfade: ${status.xfade ? `${status.xfade}s` : "off"}`,
+                    `MixRamp: ${status.mixrampdelay !== undefined ? `${status.mixrampdb} dB, delay ${status.mixrampdelay}s` : "off"}`,
+                    `ReplayGain: ${replayGainMode}`,
+                  ].join(", ")}`,
+                },
+              ],
             };
           }
 
@@ -1013,9 +3510,7 @@ The volume range is 0-100, where:
             ],
           };
         } catch (error) {
-          throw new Error(
-            `Error setting playback options: ${(error as Error).message}`,
-          );
+          throw withContext("Error setting playback options", error);
         }
       }
 
@@ -1024,21 +3519,218 @@ The volume range is 0-100, where:
     }
   } catch (error) {
     console.error("Error in CallToolRequestSchema handler:", error);
+
+    // MPD's refusals are answers the model can act on, not protocol errors
+    const result = toolErrorResult(error);
+    if (result) {
+      return result;
+    }
     throw error;
   }
 });
 
+/**
+ * Cover art for a song: the cover file in its folder, falling back to the
+ * picture embedded in the file
+ */
+async function getCoverArt(
+  client: MpdClient,
+  uri: string,
+): Promise<MpdPicture | undefined> {
+  return (await client.albumArt(uri)) || (await client.readPicture(uri));
+}
+
+/**
+ * Image content blocks with the covers of the given songs, one per album.
+ * Missing covers are skipped so that they never fail the tool call.
+ */
+async function coverContent(
+  client: MpdClient,
+  songs: MpdSong[],
+  limit: number = 1,
+): Promise<Array<{ type: "image"; data: string; mimeType: string }>> {
+  const albums = new Set<string>();
+  const images: Array<{ type: "image"; data: string; mimeType: string }> = [];
+
+  for (const song of songs) {
+    if (images.length >= limit) break;
+
+    const album = formatTag(song.album) || song.file;
+    if (albums.has(album)) continue;
+    albums.add(album);
+
+    try {
+      const cover = await getCoverArt(client, song.file);
+      if (cover) {
+        images.push({
+          type: "image",
+          data: cover.data.toString("base64"),
+          mimeType: cover.mimeType,
+        });
+      }
+    } catch (error) {
+      console.error(`Error reading cover for ${song.file}:`, error);
+    }
+  }
+
+  return images;
+}
+
+/**
+ * Wait until MPD has finished a database update job. Resolves to false when
+ * the job is still running after the timeout.
+ */
+async function waitForDatabaseUpdate(
+  client: MpdClient,
+  jobId: number,
+  timeoutMs: number,
+): Promise<boolean> {
+  let check = () => {};
+  let timer: NodeJS.Timeout | undefined;
+
+  try {
+    return await new Promise<boolean>((resolve, reject) => {
+      // MPD runs update jobs in order, so a later job id means ours is done
+      check = () => {
+        client
+          .status()
+          .then((status) => {
+            if (
+              status.updating_db === undefined ||
+              status.updating_db > jobId
+            ) {
+              resolve(true);
+            }
+          })
+          .catch(reject);
+      };
+
+      timer = setTimeout(() => resolve(false), timeoutMs);
+      client.on("update", check);
+      client.on("database", check);
+
+      // The job may have finished before the listeners were added
+      check();
+    });
+  } finally {
+    clearTimeout(timer);
+    client.off("update", check);
+    client.off("database", check);
+  }
+}
+
+/**
+ * Add context to an error while keeping MPD and connection errors
+ * recognizable for the error responses
+ */
+function withContext(context: string, error: unknown): Error {
+  if (error instanceof McpError) return error;
+
+  const message = `${context}: ${(error as Error).message}`;
+
+  if (error instanceof MpdError) {
+    return new MpdError(error.code, message, error.command, error.index);
+  }
+  if (error instanceof MpdConnectionError) {
+    return new MpdConnectionError(message);
+  }
+  return new Error(message);
+}
+
+/**
+ * Turn MPD and connection errors into a tool result the model can read
+ */
+function toolErrorResult(
+  error: unknown,
+):
+  | { content: Array<{ type: "text"; text: string }>; isError: true }
+  | undefined {
+  let text: string;
+
+  if (error instanceof MpdConnectionError) {
+    // The client keeps reconnecting in the background, so the tool can
+    // simply be tried again later
+    text = mpdClient.state === "reconnecting" ? MPD_UNAVAILABLE : error.message;
+  } else if (error instanceof MpdError) {
+    const hint = MPD_ERROR_HINTS[error.code];
+    text = hint ? `${error.message}\n${hint}` : error.message;
+  } else {
+    return undefined;
+  }
+
+  return { content: [{ type: "text", text }], isError: true };
+}
+
+/**
+ * Describe the tags of a song beyond artist, title and album on one line
+ */
+function formatSongDetails(song: MpdSong): string | undefined {
+  const details: string[] = [];
+  const add = (label: string, value: string | undefined) => {
+    if (value) details.push(`${label}: ${value}`);
+  };
+
+  const albumArtist = formatTag(song.albumArtist);
+  if (albumArtist !== formatTag(song.artist)) {
+    add("Album artist", albumArtist);
+  }
+  add("Genre", formatTag(song.genre));
+  add("Date", firstTag(song.date));
+  add("Composer", formatTag(song.composer));
+  add("Performer", formatTag(song.performer));
+  add("Disc", firstTag(song.disc));
+  add("Track", firstTag(song.track));
+  add(
+    "Duration",
+    song.duration !== undefined ? formatDuration(song.duration) : undefined,
+  );
+  add("Format", song.format);
+
+  return details.length > 0 ? details.join(" | ") : undefined;
+}
+
+/**
+ * Explain MPD's "samplerate:bits:channels" audio format
+ */
+function describeAudioFormat(format: string): string {
+  const parts = format.split(":");
+
+  // DSD has no bit depth: "dsd64:2"
+  if (parts.length === 2 && parts[0].startsWith("dsd")) {
+    return `${format} (${parts[0].toUpperCase()}, ${parts[1]} channels)`;
+  }
+  if (parts.length !== 3) return format;
+
+  const [rate, bits, channels] = parts;
+  const bitsText = bits === "f" ? "32 bit float" : `${bits} bit`;
+  return `${format} (${Number(rate) / 1000} kHz, ${bitsText}, ${channels} channels)`;
+}
+
+/**
+ * Convert a 0-10 rating sticker to 0-5 stars
+ */
+function stickerToStars(value: string): number {
+  return Math.round((parseInt(value, 10) || 0) / 2);
+}
+
 /**
  * Helper function to ensure the MPD client is connected
  */
 export async function ensureConnected(): Promise<void> {
-  if (!(mpdClient as any).connected) {
+  if (mpdClient.state === "reconnecting") {
+    throw new MpdConnectionError(MPD_UNAVAILABLE);
+  }
+
+  if (mpdClient.state !== "connected") {
     try {
       await mpdClient.connect();
-      console.error(`Connected to MPD server at ${MPD_HOST}:${MPD_PORT}`);
+      console.error(`Connected to MPD server at ${MPD_ADDRESS}`);
     } catch (error) {
       console.error("Failed to connect to MPD server:", error);
-      throw new Error(
+      if (error instanceof MpdError) {
+        throw withContext("Failed to connect to MPD server", error);
+      }
+      throw new MpdConnectionError(
         `Failed to connect to MPD server: ${(error as Error).message}`,
       );
     }
@@ -1059,9 +3751,7 @@ async function main() {
     // Now connect to MPD in background
     mpdClient
       .connect()
-      .then(() =>
-        console.error(`Connected to MPD server at ${MPD_HOST}:${MPD_PORT}`),
-      )
+      .then(() => console.error(`Connected to MPD server at ${MPD_ADDRESS}`))
       .catch((error) =>
         console.error("Failed to connect to MPD server:", error),
       );
@@ -1075,6 +3765,9 @@ async function main() {
 process.on("SIGINT", async () => {
   console.error("Shutting down...");
   try {
+    for (const partition of Array.from(partitionClients.keys())) {
+      await releasePartitionClient(partition);
+    }
     await mpdClient.disconnect();
     console.error("Disconnected from MPD server");
   } catch (error) {